@@ -1,11 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import HomePage from './components/HomePage.tsx';
 import LoginPage from './components/LoginPage.tsx';
 import RegisterPage from './components/RegisterPage.tsx';
 import StudyApp from './components/StudyApp.tsx';
 import { UserData } from './types.ts';
 import * as authService from './services/authService.ts';
-import { supabase } from './services/supabaseClient.ts';
+import * as syncService from './services/syncService.ts';
+import { NoteConflict, ConflictChoice } from './services/syncService.ts';
+import { supabase, isSupabaseConfigured } from './services/supabaseClient.ts';
+import SyncConflictDialog from './components/SyncConflictDialog.tsx';
 import { SpinnerIcon } from './components/Icons.tsx';
 
 type View = 'home' | 'login' | 'register' | 'study';
@@ -16,6 +19,11 @@ export default function App() {
   const [isLoadingSession, setIsLoadingSession] = useState(true);
   const [profileRecoveryError, setProfileRecoveryError] = useState<string | null>(null);
 
+  // Latest user data including changes not yet rendered, so back-to-back updates each diff
+  // against the snapshot the previous one produced.
+  const currentUserRef = useRef<UserData | null>(null);
+  currentUserRef.current = currentUser;
+
   // This function is now stable and doesn't depend on `view` state, breaking the re-render loop.
   const handleAuthUser = useCallback(async (user: any) => {
     console.log('[handleAuthUser] START', { user });
@@ -24,6 +32,21 @@ export default function App() {
       console.log('[handleAuthUser] Before getUserData');
       let profile = await authService.getUserData(user.id);
       console.log('[handleAuthUser] After getUserData:', profile);
+
+      if (profile) {
+        // A guest who has just created an account brings their notes and progress along.
+        try {
+          profile = (await authService.migrateGuestData(profile)) ?? profile;
+        } catch (e) {
+          console.error('[handleAuthUser] Could not move guest data into the account; it stays on this device:', e);
+        }
+        // Layer on any changes made on this device that haven't synced yet.
+        profile = syncService.rememberServerUserData(profile);
+      } else {
+        // Offline (or the server is unreachable): carry on with the copy saved on this device.
+        profile = syncService.getLocalUserData(user.id);
+        if (profile) console.warn('[handleAuthUser] Could not load profile; using the copy saved on this device.');
+      }
       
       // If profile doesn't exist, try to create it
       if (!profile) {
@@ -70,6 +93,12 @@ export default function App() {
     const checkSession = async () => {
       console.log("[App] checkSession started");
       try {
+        if (!supabase) {
+          // No accounts without Supabase; offer this device's guest profile, if there is one.
+          setCurrentUser(await authService.getGuestUserData());
+          setView('home');
+          return;
+        }
         console.log('[App] About to call supabase.auth.getSession. localStorage:', Object.keys(window.localStorage));
         timeoutId = window.setTimeout(() => {
           didTimeout = true;
@@ -84,6 +113,7 @@ export default function App() {
           await handleAuthUser(session.user);
         } else {
           console.log('[App] checkSession found NO user, setting view to home');
+          setCurrentUser(await authService.getGuestUserData());
           setView('home');
         }
       } catch (error) {
@@ -91,7 +121,7 @@ export default function App() {
         console.error("[App] Error during initial session check:", error);
         // Fallback: clear any possibly corrupted session/localStorage
         try {
-          await supabase.auth.signOut();
+          await supabase?.auth.signOut();
         } catch (logoutError) {
           console.error('[App] Error during fallback signOut:', logoutError);
         }
@@ -104,7 +134,7 @@ export default function App() {
     checkSession();
 
     // Listen for all auth events.
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+    const subscription = supabase?.auth.onAuthStateChange(
       async (event, session) => {
         console.log('[App] onAuthStateChange event:', event, session);
         if (session?.user) {
@@ -131,13 +161,17 @@ export default function App() {
             clearTimeout(timeout);
           }
         } else {
-          setCurrentUser(null);
-          setView('home');
+          // Signing out of an account doesn't end a guest session on this device.
+          const current = currentUserRef.current;
+          if (!current || !authService.isGuestUser(current.id)) {
+            setCurrentUser(null);
+            setView('home');
+          }
           setIsLoadingSession(false);
           console.log('[App] Auth state change: user signed out, loading session set to false');
         }
       }
-    );
+    ).data.subscription;
 
     return () => {
       if (timeoutId) clearTimeout(timeoutId);
@@ -145,20 +179,98 @@ export default function App() {
     };
   }, [handleAuthUser]);
 
+  const handleStartGuest = useCallback(async () => {
+    try {
+      const guest = await authService.startGuestSession();
+      setCurrentUser(guest);
+      setView('study');
+    } catch (e) {
+      console.error('[App] Could not start a guest session:', e);
+      setProfileRecoveryError('Could not start a guest session. Your browser may be blocking local storage.');
+    }
+  }, []);
+
   const handleLogout = useCallback(() => {
+    if (currentUser && authService.isGuestUser(currentUser.id)) {
+      // The guest profile stays on this device so studying can resume later.
+      setCurrentUser(null);
+      setView('home');
+      return;
+    }
+    // Don't leave a copy of the user's data on a shared device, unless it still has unsynced changes.
+    if (currentUser?.id) syncService.clearLocalUserData(currentUser.id);
     authService.logoutUser();
     // onAuthStateChange will handle setting the user and view.
-  }, []);
+  }, [currentUser]);
   
+  const [syncState, setSyncState] = useState<{ status: 'synced' | 'syncing' | 'offline' | 'failed'; pending: number }>({ status: 'synced', pending: 0 });
+  const [pendingConflicts, setPendingConflicts] = useState<{ conflicts: NoteConflict[]; resolve: (choices: ConflictChoice[]) => void } | null>(null);
+
+  const currentUserId = currentUser?.id;
+
+  // Shows the conflict dialog and waits for the user's choices.
+  const resolveConflicts = useCallback((conflicts: NoteConflict[]) => {
+    return new Promise<ConflictChoice[]>(resolve => setPendingConflicts({ conflicts, resolve }));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!currentUserId || authService.isGuestUser(currentUserId)) return;
+    setSyncState({ status: 'syncing', pending: syncService.getPendingChangeCount(currentUserId) });
+    const result = await syncService.syncPendingChanges(currentUserId, resolveConflicts);
+    if (result.status === 'synced' && result.user && currentUserRef.current?.id === currentUserId) {
+      // Changes from another device were merged in; show them along with anything queued since.
+      const merged = { ...syncService.getLocalUserData(currentUserId)!, cachedContent: result.user.cachedContent };
+      currentUserRef.current = merged;
+      setCurrentUser(merged);
+    }
+    const pending = syncService.getPendingChangeCount(currentUserId);
+    const status = result.status === 'offline' || result.status === 'failed' ? result.status : 'synced';
+    setSyncState({ status, pending });
+  }, [currentUserId, resolveConflicts]);
+
+  // Sync on sign-in, when the connection comes back, and periodically while changes are waiting.
+  useEffect(() => {
+    if (!currentUserId || authService.isGuestUser(currentUserId)) return;
+    syncNow();
+    const handleOnline = () => syncNow();
+    window.addEventListener('online', handleOnline);
+    const interval = window.setInterval(() => {
+      if (syncService.getPendingChangeCount(currentUserId) > 0) syncNow();
+    }, 30000);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.clearInterval(interval);
+    };
+  }, [currentUserId, syncNow]);
+
+  // Applies the change locally first so the UI never waits on the round trip. Changes are saved on this
+  // device and queued, then sent in the background, so nothing is lost while offline.
+  // Rejects if there is no signed-in user so callers that track saving (e.g. note autosave) keep their drafts.
   const handleUpdateUserData = useCallback(async (data: Partial<UserData>) => {
-    if (currentUser?.id) {
-      await authService.updateUserData(currentUser.id, data);
-      const updatedUser = await authService.getUserData(currentUser.id);
-      if (updatedUser) {
-        setCurrentUser(updatedUser);
-      }
+    const previous = currentUserRef.current;
+    if (!currentUserId || previous?.id !== currentUserId) {
+      throw new Error('You are no longer signed in.');
     }
-  }, [currentUser]);
+    const next = { ...previous, ...data };
+    currentUserRef.current = next;
+    setCurrentUser(next);
+
+    if (authService.isGuestUser(currentUserId)) {
+      // Guest data already lives on this device, so there is nothing to queue or sync.
+      await authService.updateUserData(currentUserId, data, previous);
+      return;
+    }
+
+    const { cachedContent, ...syncedData } = data;
+    if (Object.keys(syncedData).length > 0) {
+      syncService.queueUserDataChange(previous, syncedData);
+      syncNow();
+    }
+    if (cachedContent !== undefined) {
+      // Cached chapter content can always be regenerated, so it is written directly instead of queued.
+      await authService.updateUserData(currentUserId, { cachedContent }, { cachedContent: previous.cachedContent });
+    }
+  }, [currentUserId, syncNow]);
 
   // DEBUG: Track and display session/user/view state
   const [debugInfo, setDebugInfo] = useState<string>("");
@@ -202,7 +314,10 @@ export default function App() {
       default:
         return <HomePage 
                   isLoggedIn={!!currentUser} 
+                  isGuest={!!currentUser && authService.isGuestUser(currentUser.id)}
+                  accountsAvailable={isSupabaseConfigured}
                   username={currentUser?.username || null}
+                  onStartGuest={handleStartGuest}
                   onNavigateToLogin={() => setView('login')}
                   onNavigateToRegister={() => setView('register')}
                   onNavigateToStudy={() => setView('study')}
@@ -220,6 +335,26 @@ export default function App() {
         </div>
       )}
       {renderView()}
+      {currentUser && (syncState.status === 'offline' || syncState.status === 'failed' || syncState.pending > 0) && (
+        <div className="fixed bottom-4 left-4 z-40 bg-white border border-gray-300 rounded-full shadow px-3 py-1 text-xs text-gray-700 flex items-center space-x-2">
+          <span>
+            {syncState.status === 'offline' ? 'Offline' : syncState.status === 'failed' ? 'Sync failed' : 'Syncing'}
+            {syncState.pending > 0 && ` · ${syncState.pending} change${syncState.pending === 1 ? '' : 's'} waiting`}
+          </span>
+          {syncState.status === 'failed' && (
+            <button onClick={syncNow} className="text-blue-600 hover:underline">Retry</button>
+          )}
+        </div>
+      )}
+      {pendingConflicts && (
+        <SyncConflictDialog
+          conflicts={pendingConflicts.conflicts}
+          onResolve={(choices) => {
+            pendingConflicts.resolve(choices);
+            setPendingConflicts(null);
+          }}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { setAiUsageLimits, AiUsageLimits, DEFAULT_AI_USAGE_LIMITS } from '../services/aiUsage.ts';
+import { useAiUsage } from '../hooks/useAiUsage.ts';
+
+interface AiUsagePanelProps {
+  userId: string;
+}
+
+const LIMIT_FIELDS: { key: keyof AiUsageLimits; label: string }[] = [
+  { key: 'dailyRequests', label: 'Requests per day' },
+  { key: 'dailyTokens', label: 'Tokens per day' },
+  { key: 'requestsPerMinute', label: 'Requests per minute' },
+];
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number }> = ({ label, used, limit }) => {
+  const share = Math.min(1, used / limit);
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-300 mb-1">
+        <span>{label}</span>
+        <span>{used.toLocaleString()} / {limit.toLocaleString()}</span>
+      </div>
+      <div className="w-full bg-gray-600 rounded-full h-1.5">
+        <div
+          className={`h-1.5 rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-yellow-400' : 'bg-blue-500'}`}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Today's AI usage against the user's limits, with the limits editable and the last few days' usage.
+ */
+const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ userId }) => {
+  const { today, recent, limits } = useAiUsage(userId);
+  const [isEditing, setIsEditing] = useState(false);
+  const earlierDays = recent.filter(day => day.date !== today.date);
+
+  const handleLimitChange = (key: keyof AiUsageLimits, value: string) => {
+    const limit = Math.floor(Number(value));
+    if (limit > 0) setAiUsageLimits(userId, { [key]: limit });
+  };
+
+  return (
+    <div className="pt-1">
+      <div className="flex items-center justify-between mb-1">
+        <span className="block text-sm font-medium text-gray-300">AI Usage Today</span>
+        <button onClick={() => setIsEditing(!isEditing)} className="text-xs text-blue-400 hover:text-blue-300">
+          {isEditing ? 'Done' : 'Limits'}
+        </button>
+      </div>
+      <div className="space-y-2">
+        <UsageBar label="Requests" used={today.requests} limit={limits.dailyRequests} />
+        <UsageBar label="Tokens" used={today.tokens} limit={limits.dailyTokens} />
+      </div>
+      {isEditing && (
+        <div className="mt-3 space-y-2">
+          {LIMIT_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between text-xs text-gray-300">
+              {label}
+              <input
+                type="number"
+                min={1}
+                defaultValue={limits[key]}
+                onBlur={e => handleLimitChange(key, e.target.value)}
+                className="w-24 p-1 bg-gray-700 text-white border border-gray-600 rounded-md text-right"
+              />
+            </label>
+          ))}
+          <button
+            onClick={() => {
+              setAiUsageLimits(userId, DEFAULT_AI_USAGE_LIMITS);
+              setIsEditing(false);
+            }}
+            className="text-xs text-gray-400 hover:text-white"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+      {earlierDays.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-xs text-gray-400">
+          {earlierDays.map(day => (
+            <li key={day.date} className="flex justify-between">
+              <span>{day.date}</span>
+              <span>{day.requests} requests · {day.tokens.toLocaleString()} tokens</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AiUsagePanel;
@@ -1,73 +1,282 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { initializeChat, sendMessage } from '../services/geminiService.ts';
-import { ChapterIdentifier, ChatMessage } from '../types.ts';
-import { PaperAirplaneIcon } from './Icons.tsx';
-import { marked } from 'marked';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { startChat } from '../services/aiService.ts';
+import { AiUsageLimitError } from '../services/aiUsage.ts';
+import type { ChatGrounding } from '../services/aiPrompts.ts';
+import { ChapterIdentifier, ChatMessage, ChatThread, TranslationKey, Verse, DeepDiveData, StudyNote, VerseQuestion, ParsedReference } from '../types.ts';
+import { findCitedReferences, toChapterKey, parseChapterKey } from '../utils/scriptureReference.ts';
+import { useCitationChecks } from '../hooks/useCitationChecks.ts';
+import { useChatThreads } from '../hooks/useChatThreads.ts';
+import { createChatThread, titleFromMessage } from '../utils/chatThreads.ts';
+import { PaperAirplaneIcon, ArrowLeftIcon } from './Icons.tsx';
+import CitationBadge from './CitationBadge.tsx';
+import LinkedMarkdown from './LinkedMarkdown.tsx';
 
 interface ChatPanelProps {
   chapterIdentifier: ChapterIdentifier;
+  // Used to check and preview the references cited in answers.
+  translation: TranslationKey;
+  onOpenReference: (reference: ParsedReference) => void;
+  // Conversations are saved per user.
+  userId: string;
+  // What the assistant is told about the current chapter.
+  verses: Verse[];
+  deepDiveData: DeepDiveData | null;
+  notes: StudyNote[];
+  // Set by "Ask about this verse"; the verses are quoted with the next question.
+  verseQuestion: VerseQuestion | null;
+  // Called once the panel has taken the question, so it isn't asked again when the panel reopens.
+  onVerseQuestionTaken: () => void;
 }
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ chapterIdentifier }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const NOTES_PREFERENCE_KEY = 'chatIncludesNotes';
+
+const describeChapterKey = (chapterKey: string | null) => {
+  const chapter = chapterKey ? parseChapterKey(chapterKey) : null;
+  return chapter ? `${chapter.book} ${chapter.chapter}` : 'General';
+};
+
+const describeVerseRange = ({ startVerse, endVerse }: VerseQuestion) =>
+  endVerse > startVerse ? `${startVerse}–${endVerse}` : `${startVerse}`;
+
+// Quotes the asked-about verses ahead of the question, so the saved thread shows what was asked about.
+const quoteVerses = (question: VerseQuestion, chapter: ChapterIdentifier, translation: TranslationKey, verses: Verse[]) => {
+  const text = verses
+    .filter(v => v.verse >= question.startVerse && v.verse <= question.endVerse)
+    .map(v => v.text.trim())
+    .join(' ');
+  return `> ${chapter.book} ${chapter.chapter}:${describeVerseRange(question)} (${translation.toUpperCase()}): "${text}"`;
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ chapterIdentifier, translation, onOpenReference, userId, verses, deepDiveData, notes, verseQuestion, onVerseQuestionTaken }) => {
+  const chapterKey = toChapterKey(chapterIdentifier);
+  const { threads, isLoaded, error: historyError, saveThread, removeThread } = useChatThreads(userId);
+  // The open conversation; a new one isn't saved until its first answer arrives.
+  const [thread, setThread] = useState<ChatThread>(() => createChatThread(chapterKey));
+  const [showHistory, setShowHistory] = useState(false);
+  const [editing, setEditing] = useState<{ threadId: string; title: string } | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  // The verses quoted with the next question, if any.
+  const [quoted, setQuoted] = useState<VerseQuestion | null>(null);
+  const [includeNotes, setIncludeNotes] = useState<boolean>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(NOTES_PREFERENCE_KEY) || 'false') === true;
+    } catch {
+      return false;
+    }
+  });
+  // Quoted verses only apply while their chapter is on screen.
+  const quotedHere = quoted && quoted.chapterKey === chapterKey ? quoted : null;
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const messages = thread.messages;
+  // Read by the effects below without re-running them: saving a thread changes `threads`,
+  // which mustn't switch the open one.
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  const onVerseQuestionTakenRef = useRef(onVerseQuestionTaken);
+  onVerseQuestionTakenRef.current = onVerseQuestionTaken;
+
+  useEffect(() => {
+    localStorage.setItem(NOTES_PREFERENCE_KEY, JSON.stringify(includeNotes));
+  }, [includeNotes]);
+
+  const messageCitations = useMemo(() => messages.map(msg =>
+    msg.role === 'model' ? [...new Set(findCitedReferences(msg.content).map(match => match.text))] : []
+  ), [messages]);
+  // Only finished answers are checked, so a reference isn't flagged while it is still streaming in.
+  const citationChecks = useCitationChecks(
+    messageCitations.flatMap((citations, index) => isLoading && index === messages.length - 1 ? [] : citations),
+    translation
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const setupChat = useCallback(() => {
-    setMessages([]);
-    initializeChat(chapterIdentifier);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [chapterIdentifier]);
+  // On another chapter, resume its latest conversation or start a new one. A free-standing
+  // conversation in progress stays open.
+  useEffect(() => {
+    if (!isLoaded) return;
+    setThread(current => {
+      if (current.messages.length > 0 && (current.chapterKey === null || current.chapterKey === chapterKey)) return current;
+      return threadsRef.current.find(saved => saved.chapterKey === chapterKey)
+        ?? (current.chapterKey === chapterKey ? current : createChatThread(chapterKey));
+    });
+    setSendError(null);
+  }, [chapterKey, isLoaded]);
 
+  // "Ask about this verse" continues the chapter's conversation, or starts one if a
+  // free-standing or other chapter's conversation is open. Taking the question clears it,
+  // so this runs once per request.
   useEffect(() => {
-    setupChat();
-  }, [setupChat]);
+    if (!verseQuestion) return;
+    setShowHistory(false);
+    setThread(current => current.chapterKey === chapterKey
+      ? current
+      : threadsRef.current.find(saved => saved.chapterKey === chapterKey) ?? createChatThread(chapterKey));
+    setQuoted(verseQuestion);
+    setSendError(null);
+    onVerseQuestionTakenRef.current();
+    inputRef.current?.focus();
+  }, [verseQuestion, chapterKey]);
+
+  // A conversation about the chapter on screen gets its text, study guide and (if shared) the
+  // user's notes; one about another chapter only knows which chapter it is.
+  const getGrounding = (target: ChatThread): ChatGrounding | null => {
+    if (!target.chapterKey) return null;
+    const identifier = parseChapterKey(target.chapterKey);
+    if (!identifier) return null;
+    if (target.chapterKey !== chapterKey) return { passage: { identifier, translation, verses: [] } };
+    return {
+      passage: { identifier, translation, verses: verses.filter(v => v.verse > 0) },
+      deepDive: deepDiveData,
+      notes: includeNotes ? notes : [],
+    };
+  };
+
+  const openThread = useCallback((next: ChatThread) => {
+    setThread(next);
+    setSendError(null);
+    setShowHistory(false);
+  }, []);
+
+  const handleRename = (saved: ChatThread) => {
+    const title = editing?.title.trim();
+    setEditing(null);
+    if (!title || title === saved.title) return;
+    const renamed = { ...saved, title };
+    saveThread(renamed);
+    setThread(current => current.id === saved.id ? renamed : current);
+  };
+
+  const handleDelete = (saved: ChatThread) => {
+    removeThread(saved.id);
+    if (saved.id === thread.id) setThread(createChatThread(chapterKey));
+  };
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
   const handleSend = async () => {
-    if (input.trim() === '' || isLoading) return;
+    const typed = input.trim();
+    if (typed === '' || isLoading) return;
+
+    // The reply belongs to this thread even if the user opens another one while it streams in.
+    const target = thread;
+    const quotedVerses = quotedHere && target.chapterKey === chapterKey ? quotedHere : null;
+    const question = quotedVerses ? `${quoteVerses(quotedVerses, chapterIdentifier, translation, verses)}\n\n${typed}` : typed;
+    // Started afresh for each question, so it is grounded in what is on screen now (e.g. a study
+    // guide that finished generating after the conversation began).
+    const chat = startChat(getGrounding(target), target.messages);
+    const asked: ChatMessage[] = [...target.messages, { role: 'user', content: question }];
+    const showMessages = (updated: ChatMessage[]) =>
+      setThread(current => current.id === target.id ? { ...current, messages: updated } : current);
 
-    const userMessage: ChatMessage = { role: 'user', content: input };
-    setMessages((prev) => [...prev, userMessage]);
     setInput('');
+    setQuoted(null);
+    setSendError(null);
     setIsLoading(true);
-
-    const modelMessage: ChatMessage = { role: 'model', content: '' };
-    setMessages((prev) => [...prev, modelMessage]);
+    showMessages([...asked, { role: 'model', content: '' }]);
 
     try {
-      const stream = await sendMessage(input);
       let text = '';
-      for await (const chunk of stream) {
-        text += chunk.text;
-        setMessages((prev) =>
-          prev.map((msg, index) =>
-            index === prev.length - 1 ? { ...msg, content: text } : msg
-          )
-        );
+      for await (const chunk of chat.sendMessageStream(question)) {
+        text += chunk;
+        showMessages([...asked, { role: 'model', content: text }]);
       }
+      const answered: ChatThread = {
+        ...target,
+        title: target.title || titleFromMessage(typed),
+        messages: [...asked, { role: 'model', content: text }],
+        updatedAt: new Date().toISOString(),
+      };
+      setThread(current => current.id === target.id ? answered : current);
+      saveThread(answered);
     } catch (error) {
       console.error('Chat error:', error);
-      setMessages((prev) =>
-          prev.map((msg, index) =>
-            index === prev.length - 1 ? { ...msg, content: 'Sorry, an error occurred.' } : msg
-          )
-        );
+      // Failed exchanges aren't kept; the question is put back so it can be sent again.
+      showMessages(target.messages);
+      setInput(typed);
+      setQuoted(quotedVerses);
+      setSendError(error instanceof AiUsageLimitError ? error.message : 'Sorry, an error occurred. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (showHistory) {
+    return (
+      <div className="flex flex-col h-full bg-white">
+        <div className="flex items-center p-3 border-b border-gray-200">
+          <button onClick={() => setShowHistory(false)} className="p-1 mr-2 text-gray-500 hover:text-gray-800 rounded" title="Back to the conversation">
+            <ArrowLeftIcon />
+          </button>
+          <span className="font-semibold text-gray-700">Conversations</span>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => openThread(createChatThread(chapterKey))} className="px-3 py-1 rounded bg-blue-600 text-white text-xs font-semibold hover:bg-blue-700">
+              New about {describeChapterKey(chapterKey)}
+            </button>
+            <button onClick={() => openThread(createChatThread(null))} className="px-3 py-1 rounded border border-gray-300 text-xs font-semibold text-gray-700 hover:bg-gray-100">
+              New general conversation
+            </button>
+          </div>
+          {historyError && <p className="text-xs text-red-600">{historyError}</p>}
+          {!isLoaded ? (
+            <p className="text-sm text-gray-500">Loading conversations...</p>
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved conversations yet. Conversations are saved once the assistant has answered.</p>
+          ) : (
+            threads.map(saved => (
+              <div key={saved.id} className={`rounded-lg border p-3 ${saved.id === thread.id ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}>
+                {editing?.threadId === saved.id ? (
+                  <input
+                    autoFocus
+                    value={editing.title}
+                    onChange={e => setEditing({ threadId: saved.id, title: e.target.value })}
+                    onBlur={() => handleRename(saved)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename(saved);
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="w-full p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <button onClick={() => openThread(saved)} className="w-full text-left text-sm font-medium text-gray-800 hover:text-blue-700">
+                    {saved.title || 'Untitled conversation'}
+                  </button>
+                )}
+                <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                  <span>{describeChapterKey(saved.chapterKey)} · {new Date(saved.updatedAt).toLocaleDateString()}</span>
+                  <span className="space-x-2">
+                    <button onClick={() => setEditing({ threadId: saved.id, title: saved.title })} className="hover:text-gray-800">Rename</button>
+                    <button onClick={() => handleDelete(saved)} className="hover:text-red-600">Delete</button>
+                  </span>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full bg-white">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 text-sm">
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-700 truncate">{thread.title || 'New conversation'}</p>
+          <p className="text-xs text-gray-500">{describeChapterKey(thread.chapterKey)}</p>
+        </div>
+        <div className="flex-shrink-0 space-x-3 text-xs font-medium">
+          <button onClick={() => openThread(createChatThread(chapterKey))} disabled={messages.length === 0} className="text-blue-600 hover:text-blue-800 disabled:text-gray-400">New</button>
+          <button onClick={() => setShowHistory(true)} className="text-blue-600 hover:text-blue-800">History</button>
+        </div>
+      </div>
       <div className="flex-1 p-4 overflow-y-auto space-y-4">
         {messages.map((msg, index) => (
           <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -76,7 +285,16 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chapterIdentifier }) => {
                 msg.role === 'user' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-800'
               }`}
             >
-              <div className="prose prose-sm" dangerouslySetInnerHTML={{ __html: marked.parse(msg.content) }} />
+              <LinkedMarkdown className="prose prose-sm" content={msg.content} translation={translation} onOpenReference={onOpenReference} />
+              {messageCitations[index].some(citation => citationChecks[citation] && citationChecks[citation].status !== 'verified') && (
+                <div className="mt-2 pt-2 border-t border-gray-300 text-xs text-gray-600 space-y-1">
+                  {messageCitations[index]
+                    .filter(citation => citationChecks[citation] && citationChecks[citation].status !== 'verified')
+                    .map(citation => (
+                      <p key={citation}>{citation}<CitationBadge check={citationChecks[citation]} /></p>
+                    ))}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -91,11 +309,20 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chapterIdentifier }) => {
              </div>
            </div>
         )}
+        {sendError && <p className="text-xs text-red-600">{sendError}</p>}
+        {historyError && <p className="text-xs text-red-600">{historyError}</p>}
         <div ref={messagesEndRef} />
       </div>
       <div className="p-4 border-t border-gray-200 bg-white">
+        {quotedHere && (
+          <div className="mb-2 flex items-center justify-between rounded-lg bg-blue-50 px-3 py-1 text-xs text-blue-800">
+            <span>Asking about {chapterIdentifier.book} {chapterIdentifier.chapter}:{describeVerseRange(quotedHere)}</span>
+            <button onClick={() => setQuoted(null)} className="ml-2 font-semibold hover:text-blue-600" title="Don't quote these verses">×</button>
+          </div>
+        )}
         <div className="flex items-center space-x-2">
           <input
+            ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
@@ -112,6 +339,15 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chapterIdentifier }) => {
             <PaperAirplaneIcon />
           </button>
         </div>
+        <label className="mt-2 flex items-center text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={includeNotes}
+            onChange={e => setIncludeNotes(e.target.checked)}
+            className="mr-2"
+          />
+          Share my notes on this chapter with the assistant
+        </label>
       </div>
     </div>
   );
@@ -0,0 +1,24 @@
+import React from 'react';
+import { CitationCheck } from '../types.ts';
+
+interface CitationBadgeProps {
+  check: CitationCheck | undefined;
+}
+
+/**
+ * Marks an AI-cited reference that couldn't be confirmed against the scripture text.
+ * Renders nothing while the check is pending or once the reference is verified.
+ */
+const CitationBadge: React.FC<CitationBadgeProps> = ({ check }) => {
+  if (!check || check.status === 'verified') return null;
+  return (
+    <span
+      title={check.reason}
+      className="ml-1 inline-block align-middle rounded bg-amber-100 px-1 text-[10px] font-semibold uppercase tracking-wide text-amber-800 not-italic"
+    >
+      Unverified reference
+    </span>
+  );
+};
+
+export default CitationBadge;
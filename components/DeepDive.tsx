@@ -1,12 +1,27 @@
 import React from 'react';
-import { DeepDiveData } from '../types';
+import { DeepDiveData, CitationCheck, ParsedReference, TranslationKey } from '../types';
+import CitationBadge from './CitationBadge.tsx';
+import LinkedMarkdown from './LinkedMarkdown.tsx';
+import SectionRefiner from './SectionRefiner.tsx';
+import type { AiContentKind, SectionRefinementRequest } from '../services/aiPrompts.ts';
 
 interface DeepDiveProps {
   data: DeepDiveData | null;
   isLoading: boolean;
+  // Sections are still streaming in; those in `data` so far are shown.
+  isGenerating: boolean;
+  citationChecks: Record<string, CitationCheck>;
+  // References in the text link to a preview in this translation.
+  translation: TranslationKey;
+  onOpenReference: (reference: ParsedReference) => void;
+  // Generates the deep dive and enrichments again; they stay on screen until the new ones arrive.
+  onRegenerate: () => void;
+  isRegenerating: boolean;
+  onRefineSection: (request: SectionRefinementRequest) => Promise<unknown | null>;
+  onKeepSection: (kind: AiContentKind, section: string, value: unknown) => void;
 }
 
-const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+const Section: React.FC<{ title: string; children: React.ReactNode; refiner?: React.ReactNode }> = ({ title, children, refiner }) => (
     <div className="mb-8">
         <h3 className="text-2xl font-semibold text-gray-800 mt-8 mb-4 pb-2 border-b-2 border-blue-200">
             {title}
@@ -14,12 +29,13 @@ const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title
         <div className="text-gray-700 leading-relaxed space-y-4">
             {children}
         </div>
+        {refiner}
     </div>
 );
 
-const SkeletonLoader = () => (
+const SkeletonLoader: React.FC<{ sections?: number }> = ({ sections = 4 }) => (
     <div className="space-y-8 animate-pulse">
-        {[...Array(4)].map((_, i) => (
+        {[...Array(sections)].map((_, i) => (
             <div key={i}>
                 <div className="h-7 bg-gray-200 rounded w-1/3 mb-4"></div>
                 <div className="space-y-3">
@@ -32,30 +48,40 @@ const SkeletonLoader = () => (
     </div>
 );
 
-const DeepDive: React.FC<DeepDiveProps> = ({ data, isLoading }) => {
-  const { 
-    summaryAndThemes = '', 
-    historicalContext = '', 
-    keyVerses = [], 
-    reflectionQuestions = [] 
-  } = data || {};
-  // Defensive: Ensure arrays are always arrays
-  const safeKeyVerses = Array.isArray(keyVerses) ? keyVerses : [];
-  const safeReflectionQuestions = Array.isArray(reflectionQuestions) ? reflectionQuestions : [];
+const DeepDive: React.FC<DeepDiveProps> = ({ data, isLoading, isGenerating, citationChecks, translation, onOpenReference, onRegenerate, isRegenerating, onRefineSection, onKeepSection }) => {
+  // `data` has been validated against the response schema (see aiValidation), so only empty
+  // entries need filtering out.
+  const validKeyVerses = (data?.keyVerses ?? []).filter(item => item.verse.trim() && item.analysis.trim());
+  const validReflectionQuestions = (data?.reflectionQuestions ?? []).filter(q => q.trim());
 
-  // Further validation on the destructured arrays
-  const validKeyVerses = Array.isArray(safeKeyVerses)
-    ? safeKeyVerses.filter(item => item && typeof item === 'object' && item.verse && item.analysis)
-    : [];
+  const linked = (content: string) => (
+    <LinkedMarkdown inline content={content} translation={translation} onOpenReference={onOpenReference} />
+  );
 
-  const validReflectionQuestions = Array.isArray(safeReflectionQuestions)
-    ? safeReflectionQuestions.filter(q => typeof q === 'string' && (q.trim() || '').length > 0)
-    : [];
+  const refinerFor = (section: keyof DeepDiveData) => data && !isGenerating && (
+    <SectionRefiner
+      current={data[section]}
+      onRefine={style => onRefineSection({ kind: 'deepDive', section, style, current: data[section] })}
+      onKeep={value => onKeepSection('deepDive', section, value)}
+    />
+  );
 
   return (
     <section className="mt-8 py-6 border-t-2 border-gray-200">
-      <h2 className="text-3xl font-bold text-gray-800 mb-6">Chapter Deep Dive</h2>
-      {isLoading ? (
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold text-gray-800">Chapter Deep Dive</h2>
+        {!isLoading && !isGenerating && (
+          <button
+            onClick={onRegenerate}
+            disabled={isRegenerating}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+            title="Generate this chapter's study guide and enrichments again"
+          >
+            {isRegenerating ? 'Regenerating…' : 'Regenerate'}
+          </button>
+        )}
+      </div>
+      {isLoading || (isGenerating && !data) ? (
         <SkeletonLoader />
       ) : !data ? (
         <div className="text-center py-10">
@@ -63,40 +89,43 @@ const DeepDive: React.FC<DeepDiveProps> = ({ data, isLoading }) => {
         </div>
       ) : (
         <div>
-            {summaryAndThemes && (
-              <Section title="Summary and Key Themes">
-                  <p>{summaryAndThemes}</p>
+            {data.summaryAndThemes && (
+              <Section title="Summary and Key Themes" refiner={refinerFor('summaryAndThemes')}>
+                  <p>{linked(data.summaryAndThemes)}</p>
               </Section>
             )}
             
-            {historicalContext && (
-              <Section title="Historical and Cultural Context">
-                  <p>{historicalContext}</p>
+            {data.historicalContext && (
+              <Section title="Historical and Cultural Context" refiner={refinerFor('historicalContext')}>
+                  <p>{linked(data.historicalContext)}</p>
               </Section>
             )}
 
-            {Array.isArray(validKeyVerses) && validKeyVerses.length > 0 && (
-              <Section title="Key Verses & Analysis">
+            {validKeyVerses.length > 0 && (
+              <Section title="Key Verses & Analysis" refiner={refinerFor('keyVerses')}>
                   {validKeyVerses.map((item, index) => (
                       <div key={index} className="py-2">
-                          <blockquote className="border-l-4 border-blue-500 pl-4 italic text-gray-600">
-                             "{item.verse}"
+                          <blockquote className="border-l-4 border-blue-500 pl-4 italic text-gray-600" title={citationChecks[item.verse]?.text}>
+                             "{linked(item.verse)}"
+                             <CitationBadge check={citationChecks[item.verse]} />
                           </blockquote>
-                          <p className="mt-2">{item.analysis}</p>
+                          <p className="mt-2">{linked(item.analysis)}</p>
                       </div>
                   ))}
               </Section>
             )}
 
-            {Array.isArray(validReflectionQuestions) && validReflectionQuestions.length > 0 && (
-              <Section title="Reflection Questions">
+            {validReflectionQuestions.length > 0 && (
+              <Section title="Reflection Questions" refiner={refinerFor('reflectionQuestions')}>
                   <ul className="list-disc list-outside pl-5 space-y-2">
                       {validReflectionQuestions.map((q, index) => (
-                      <li key={index}>{q}</li>
+                      <li key={index}>{linked(q)}</li>
                   ))}
                   </ul>
               </Section>
             )}
+
+            {isGenerating && <SkeletonLoader sections={1} />}
         </div>
       )}
     </section>
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   ChapterIdentifier, 
   EnrichmentType, 
@@ -7,9 +7,20 @@ import {
   WordStudy,
   HistoricalContext,
   LiteraryAnalysis,
-  Interpretation
+  Interpretation,
+  CitationCheck,
+  TranslationKey,
+  Verse,
+  DeepDiveData,
+  StudyNote,
+  VerseQuestion,
+  ParsedReference
 } from '../types.ts';
 import ChatPanel from './ChatPanel.tsx';
+import CitationBadge from './CitationBadge.tsx';
+import LinkedMarkdown from './LinkedMarkdown.tsx';
+import SectionRefiner from './SectionRefiner.tsx';
+import type { AiContentKind, SectionRefinementRequest } from '../services/aiPrompts.ts';
 import { 
     BookOpenIcon, 
     ChatAlt2Icon, 
@@ -23,54 +34,74 @@ import {
 // --- Inlined component from EnrichmentModule.tsx for maximum robustness ---
 interface EnrichmentModuleProps {
   type: EnrichmentType;
-  data: any;
+  // Validated against the response schema (see aiValidation), so every field is present.
+  data: CrossReference[] | WordStudy[] | Interpretation[] | HistoricalContext | LiteraryAnalysis;
+  citationChecks: Record<string, CitationCheck>;
+  // Cross-references dropped because the cited passage doesn't exist.
+  removedCrossReferences: CrossReference[];
+  // References in the text link to a preview in this translation.
+  translation: TranslationKey;
+  onOpenReference: (reference: ParsedReference) => void;
+  // Not generated yet; the enrichments are still streaming in.
+  isPending: boolean;
+  onRefine: (request: Omit<SectionRefinementRequest, 'kind' | 'section'>) => Promise<unknown | null>;
+  onKeep: (value: unknown) => void;
 }
 
-const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data }) => {
+const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data, citationChecks, removedCrossReferences, translation, onOpenReference, isPending, onRefine, onKeep }) => {
   const [isOpen, setIsOpen] = useState(false);
 
+  const linked = (content: string) => (
+    <LinkedMarkdown inline content={content} translation={translation} onOpenReference={onOpenReference} />
+  );
+
   const handleToggle = () => setIsOpen(!isOpen);
 
   const renderContent = () => {
+    if (isPending) {
+      return <p className="text-sm text-gray-500 animate-pulse">Generating...</p>;
+    }
     switch (type) {
       case EnrichmentType.CrossReferences:
       case EnrichmentType.WordStudies:
       case EnrichmentType.Interpretations: {
-        // This block handles any data that is expected to be an array of objects.
-        if (!Array.isArray(data)) {
-          return <p className="text-sm text-gray-500">No data available.</p>;
-        }
-        const validItems = data.filter(item => item && typeof item === 'object');
-        if (validItems.length === 0) {
+        const items = data as (CrossReference | WordStudy | Interpretation)[];
+        if (items.length === 0) {
           return <p className="text-sm text-gray-500">No specific data available for this chapter.</p>;
         }
 
-        return validItems.map((item, index) => {
+        return items.map((item, index) => {
           if (type === EnrichmentType.CrossReferences) {
-            const { reference = 'N/A', verse = 'N/A', explanation = '' } = item as CrossReference;
+            const { reference, verse, explanation } = item as CrossReference;
             return (
               <div key={index} className="py-2 border-b border-gray-100 last:border-b-0">
-                <p className="font-semibold text-gray-700">{reference} (v. {verse})</p>
-                <p className="text-gray-600 text-sm">{explanation}</p>
+                <p className="font-semibold text-gray-700" title={citationChecks[reference]?.text}>
+                  {linked(reference)} (v. {verse})
+                  <CitationBadge check={citationChecks[reference]} />
+                </p>
+                <p className="text-gray-600 text-sm">{linked(explanation)}</p>
               </div>
             );
           }
           if (type === EnrichmentType.WordStudies) {
-            const { originalWord = 'N/A', transliteration = 'N/A', verse = 'N/A', meaning = '', contextualUse = '' } = item as WordStudy;
+            const { originalWord, transliteration, verse, meaning, contextualUse, translationNote } = item as WordStudy;
             return (
               <div key={index} className="py-2 border-b border-gray-100 last:border-b-0">
                 <p className="font-semibold text-gray-700">{originalWord} ({transliteration}) (v. {verse})</p>
                 <p className="text-gray-600 text-sm"><span className="font-medium">Meaning:</span> {meaning}</p>
                 <p className="text-gray-600 text-sm"><span className="font-medium">Use:</span> {contextualUse}</p>
+                {translationNote?.trim() && (
+                  <p className="text-gray-600 text-sm"><span className="font-medium">Translations:</span> {translationNote}</p>
+                )}
               </div>
             );
           }
           if (type === EnrichmentType.Interpretations) {
-            const { viewpoint = 'N/A', verse = 'N/A', summary = '' } = item as Interpretation;
+            const { viewpoint, verse, summary } = item as Interpretation;
             return (
               <div key={index} className="py-2 border-b border-gray-100 last:border-b-0">
                   <p className="font-semibold text-gray-700">{viewpoint} (v. {verse})</p>
-                  <p className="text-gray-600 text-sm">{summary}</p>
+                  <p className="text-gray-600 text-sm">{linked(summary)}</p>
               </div>
             );
           }
@@ -79,8 +110,7 @@ const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data }) => {
       }
       
       case EnrichmentType.HistoricalContext: {
-        // Defensively destructure the object, providing defaults for every property.
-        const { geography = '', customs = '', politicalClimate = '' } = (data || {}) as HistoricalContext;
+        const { geography, customs, politicalClimate } = data as HistoricalContext;
         if (!geography.trim() && !customs.trim() && !politicalClimate.trim()) {
            return <p className="text-sm text-gray-500">No specific data available for this chapter.</p>;
         }
@@ -103,9 +133,8 @@ const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data }) => {
       }
 
        case EnrichmentType.LiteraryAnalysis: {
-         // Defensively destructure, ensuring `themes` is always an array.
-         const { structure = '', themes = [] } = (data || {}) as LiteraryAnalysis;
-         const validThemes = (Array.isArray(themes) ? themes : []).filter(t => typeof t === 'string' && t.trim());
+         const { structure, themes } = data as LiteraryAnalysis;
+         const validThemes = themes.filter(t => t.trim());
          
          if (!structure.trim() && validThemes.length === 0) {
             return <p className="text-sm text-gray-500">No specific data available for this chapter.</p>;
@@ -143,6 +172,12 @@ const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data }) => {
       {isOpen && (
         <div className="p-4 border-t border-gray-200 bg-white space-y-2">
           {renderContent()}
+          {type === EnrichmentType.CrossReferences && removedCrossReferences.length > 0 && (
+            <p className="text-xs text-amber-700" title={removedCrossReferences.map(item => `${item.reference}: ${citationChecks[item.reference]?.reason ?? ''}`).join('\n')}>
+              {removedCrossReferences.length === 1 ? '1 cross-reference was' : `${removedCrossReferences.length} cross-references were`} removed because the cited passage does not exist.
+            </p>
+          )}
+          {!isPending && <SectionRefiner current={data} onRefine={style => onRefine({ style, current: data })} onKeep={onKeep} />}
         </div>
       )}
     </div>
@@ -150,6 +185,15 @@ const EnrichmentModule: React.FC<EnrichmentModuleProps> = ({ type, data }) => {
 };
 
 
+// The property of AllEnrichmentData each module shows.
+const ENRICHMENT_SECTIONS: Record<EnrichmentType, keyof AllEnrichmentData> = {
+  [EnrichmentType.CrossReferences]: 'crossReferences',
+  [EnrichmentType.WordStudies]: 'wordStudies',
+  [EnrichmentType.HistoricalContext]: 'historicalContext',
+  [EnrichmentType.LiteraryAnalysis]: 'literaryAnalysis',
+  [EnrichmentType.Interpretations]: 'interpretations',
+};
+
 // --- Original EnrichmentPanel Component ---
 interface EnrichmentPanelProps {
   chapterIdentifier: ChapterIdentifier | null;
@@ -158,6 +202,21 @@ interface EnrichmentPanelProps {
   isCollapsed: boolean;
   toggleCollapse: () => void;
   enrichmentData: AllEnrichmentData | null;
+  citationChecks: Record<string, CitationCheck>;
+  removedCrossReferences: CrossReference[];
+  translation: TranslationKey;
+  userId: string;
+  // The enrichments are still streaming in; `enrichmentData` may hold some of them.
+  isGenerating: boolean;
+  onRefineSection: (request: SectionRefinementRequest) => Promise<unknown | null>;
+  onKeepSection: (kind: AiContentKind, section: string, value: unknown) => void;
+  onOpenReference: (reference: ParsedReference) => void;
+  // Grounding for the chat.
+  verses: Verse[];
+  deepDiveData: DeepDiveData | null;
+  notes: StudyNote[];
+  verseQuestion: VerseQuestion | null;
+  onVerseQuestionTaken: () => void;
 }
 
 const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({ 
@@ -167,9 +226,27 @@ const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({
   isCollapsed,
   toggleCollapse,
   enrichmentData,
+  citationChecks,
+  removedCrossReferences,
+  translation,
+  userId,
+  isGenerating,
+  onRefineSection,
+  onKeepSection,
+  onOpenReference,
+  verses,
+  deepDiveData,
+  notes,
+  verseQuestion,
+  onVerseQuestionTaken,
 }) => {
   const [activeTab, setActiveTab] = React.useState<'enrich' | 'chat'>('enrich');
 
+  // "Ask about this verse" opens the chat, which then takes the question.
+  useEffect(() => {
+    if (verseQuestion) setActiveTab('chat');
+  }, [verseQuestion]);
+
   // This `dataMap` is now extremely robust. It guarantees a safe, fully-formed
   // object is passed to the EnrichmentModule, even if `enrichmentData` is null
   // or has missing properties.
@@ -247,12 +324,29 @@ const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({
                     key={type} 
                     type={type} 
                     data={dataMap[type]}
+                    citationChecks={citationChecks}
+                    removedCrossReferences={removedCrossReferences}
+                    translation={translation}
+                    onOpenReference={onOpenReference}
+                    isPending={isGenerating && enrichmentData[ENRICHMENT_SECTIONS[type]] === undefined}
+                    onRefine={request => onRefineSection({ ...request, kind: 'enrichments', section: ENRICHMENT_SECTIONS[type] })}
+                    onKeep={value => onKeepSection('enrichments', ENRICHMENT_SECTIONS[type], value)}
                 />
                 ))
             )}
           </div>
         ) : (
-          <ChatPanel chapterIdentifier={chapterIdentifier} />
+          <ChatPanel
+            chapterIdentifier={chapterIdentifier}
+            translation={translation}
+            onOpenReference={onOpenReference}
+            userId={userId}
+            verses={verses}
+            deepDiveData={deepDiveData}
+            notes={notes}
+            verseQuestion={verseQuestion}
+            onVerseQuestionTaken={onVerseQuestionTaken}
+          />
         )}
       </div>
 
@@ -3,14 +3,19 @@ import { BookOpenIcon } from './Icons';
 
 interface HomePageProps {
   isLoggedIn: boolean;
+  // Studying without an account; data is kept on this device only.
+  isGuest: boolean;
+  // False when the app is deployed without an account backend.
+  accountsAvailable: boolean;
   username: string | null;
+  onStartGuest: () => void;
   onNavigateToLogin: () => void;
   onNavigateToRegister: () => void;
   onNavigateToStudy: () => void;
   onLogout: () => void;
 }
 
-const HomePage: React.FC<HomePageProps> = ({ isLoggedIn, username, onNavigateToLogin, onNavigateToRegister, onNavigateToStudy, onLogout }) => {
+const HomePage: React.FC<HomePageProps> = ({ isLoggedIn, isGuest, accountsAvailable, username, onStartGuest, onNavigateToLogin, onNavigateToRegister, onNavigateToStudy, onLogout }) => {
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 text-gray-800 p-4">
       <div className="text-center max-w-2xl mx-auto">
@@ -22,7 +27,9 @@ const HomePage: React.FC<HomePageProps> = ({ isLoggedIn, username, onNavigateToL
         
         {isLoggedIn ? (
           <div className="space-y-4">
-             <p className="text-lg text-gray-700">Welcome back, {username}!</p>
+             <p className="text-lg text-gray-700">
+               {isGuest ? 'Welcome back! You are studying as a guest.' : `Welcome back, ${username}!`}
+             </p>
             <button
               onClick={onNavigateToStudy}
               className="w-full sm:w-auto px-10 py-3 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition-transform transform hover:scale-105"
@@ -33,22 +40,41 @@ const HomePage: React.FC<HomePageProps> = ({ isLoggedIn, username, onNavigateToL
               onClick={onLogout}
               className="w-full sm:w-auto mt-4 sm:mt-0 sm:ml-4 px-10 py-3 bg-gray-200 text-gray-700 font-semibold rounded-lg hover:bg-gray-300 transition-colors"
             >
-              Logout
+              {isGuest ? 'Leave guest mode' : 'Logout'}
             </button>
+            {isGuest && accountsAvailable && (
+              <p className="text-sm text-gray-500">
+                Your notes and progress are saved on this device only.{' '}
+                <button onClick={onNavigateToRegister} className="text-blue-600 font-medium hover:underline">
+                  Create an account
+                </button>
+                {' '}to keep them everywhere.
+              </p>
+            )}
           </div>
         ) : (
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+            {accountsAvailable && (
+              <>
+                <button
+                  onClick={onNavigateToLogin}
+                  className="w-full sm:w-auto px-8 py-3 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition-colors"
+                >
+                  Login
+                </button>
+                <button
+                  onClick={onNavigateToRegister}
+                  className="w-full sm:w-auto px-8 py-3 bg-white text-blue-600 font-semibold rounded-lg border-2 border-blue-600 hover:bg-blue-50 transition-colors"
+                >
+                  Register
+                </button>
+              </>
+            )}
             <button
-              onClick={onNavigateToLogin}
-              className="w-full sm:w-auto px-8 py-3 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition-colors"
+              onClick={onStartGuest}
+              className="w-full sm:w-auto px-8 py-3 text-gray-600 font-semibold rounded-lg hover:bg-gray-100 transition-colors"
             >
-              Login
-            </button>
-            <button
-              onClick={onNavigateToRegister}
-              className="w-full sm:w-auto px-8 py-3 bg-white text-blue-600 font-semibold rounded-lg border-2 border-blue-600 hover:bg-blue-50 transition-colors"
-            >
-              Register
+              Continue as guest
             </button>
           </div>
         )}
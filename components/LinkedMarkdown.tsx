@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ParsedReference, TranslationKey } from '../types.ts';
+import { renderMarkdown, getMarkdownLinkTarget } from '../utils/markdown.ts';
+import { usePassagePreview } from '../hooks/usePassagePreview.ts';
+
+interface LinkedMarkdownProps {
+  content: string;
+  // Previews show the text in this translation.
+  translation: TranslationKey;
+  // Opens the passage in the study view; without it, previews have no "Open" action.
+  onOpenReference?: (reference: ParsedReference) => void;
+  // Render as a span, without a wrapping paragraph.
+  inline?: boolean;
+  className?: string;
+}
+
+interface PreviewState {
+  reference: ParsedReference;
+  anchor: DOMRect;
+  // Opened by a click or tap, so it stays open until dismissed.
+  pinned: boolean;
+}
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_TEXT_LENGTH = 400;
+// Long enough to move the pointer from the link onto the preview.
+const HIDE_DELAY_MS = 250;
+
+const ReferencePreview: React.FC<{
+  preview: PreviewState;
+  translation: TranslationKey;
+  onOpen?: () => void;
+  onClose: () => void;
+  onPointerEnter: () => void;
+  onPointerLeave: () => void;
+}> = ({ preview, translation, onOpen, onClose, onPointerEnter, onPointerLeave }) => {
+  const { passage, error } = usePassagePreview(preview.reference.canonical, translation);
+  const { anchor } = preview;
+  const left = Math.max(8, Math.min(anchor.left, window.innerWidth - PREVIEW_WIDTH - 8));
+  // Below the link unless that would run off the screen.
+  const position = anchor.bottom + 220 > window.innerHeight
+    ? { bottom: window.innerHeight - anchor.top + 6 }
+    : { top: anchor.bottom + 6 };
+  const text = passage?.text.trim().replace(/\s+/g, ' ') ?? '';
+
+  return (
+    <div
+      role="dialog"
+      data-reference-preview
+      aria-label={`Preview of ${preview.reference.canonical}`}
+      style={{ left, width: PREVIEW_WIDTH, ...position }}
+      className="fixed z-50 rounded-lg border border-gray-200 bg-white p-3 text-left text-sm font-sans not-italic text-gray-700 shadow-xl"
+      onMouseEnter={onPointerEnter}
+      onMouseLeave={onPointerLeave}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-semibold text-gray-800">{preview.reference.canonical}</span>
+        <span className="text-xs text-gray-500 uppercase">{translation}</span>
+      </div>
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : !passage ? (
+        <p className="text-xs text-gray-500 animate-pulse">Loading passage...</p>
+      ) : (
+        <p className="leading-relaxed">
+          {text.length > PREVIEW_TEXT_LENGTH ? `${text.slice(0, PREVIEW_TEXT_LENGTH).trimEnd()}…` : text}
+        </p>
+      )}
+      {(onOpen || preview.pinned) && (
+        <div className="mt-2 flex justify-end gap-x-3 text-xs font-medium">
+          {preview.pinned && <button onClick={onClose} className="text-gray-500 hover:text-gray-800">Close</button>}
+          {onOpen && <button onClick={onOpen} className="text-blue-600 hover:text-blue-800">Open in study view</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Renders Markdown with its scripture references as links. Hovering or tapping a link previews
+ * the passage, and the preview can open it in the study view.
+ */
+const LinkedMarkdown: React.FC<LinkedMarkdownProps> = ({ content, translation, onOpenReference, inline = false, className = '' }) => {
+  const html = useMemo(() => renderMarkdown(content, { linkReferences: true, inline }), [content, inline]);
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const hideTimer = useRef<number | null>(null);
+
+  const cancelHide = () => {
+    if (hideTimer.current !== null) window.clearTimeout(hideTimer.current);
+    hideTimer.current = null;
+  };
+
+  const scheduleHide = () => {
+    cancelHide();
+    hideTimer.current = window.setTimeout(() => setPreview(current => current?.pinned ? current : null), HIDE_DELAY_MS);
+  };
+
+  useEffect(() => cancelHide, []);
+
+  // The preview is positioned against the link, so it closes once the page scrolls away from it.
+  // A pinned preview also closes on Escape or a click elsewhere.
+  useEffect(() => {
+    if (!preview) return;
+    const close = () => setPreview(null);
+    const closeOnEscape = (e: KeyboardEvent) => e.key === 'Escape' && close();
+    const closeOnClickOutside = (e: MouseEvent) => {
+      if (!(e.target as HTMLElement).closest?.('[data-reference-preview]')) close();
+    };
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('resize', close);
+    document.addEventListener('keydown', closeOnEscape);
+    document.addEventListener('mousedown', closeOnClickOutside);
+    return () => {
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('resize', close);
+      document.removeEventListener('keydown', closeOnEscape);
+      document.removeEventListener('mousedown', closeOnClickOutside);
+    };
+  }, [preview]);
+
+  const showPreview = (e: React.MouseEvent, pinned: boolean) => {
+    const target = getMarkdownLinkTarget(e);
+    if (target?.type !== 'reference') return false;
+    const anchor = (e.target as HTMLElement).closest('a[data-ref]')!.getBoundingClientRect();
+    cancelHide();
+    setPreview(current => current?.pinned && !pinned ? current : { reference: target.reference, anchor, pinned });
+    return true;
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (showPreview(e, true)) e.preventDefault();
+  };
+
+  const handleMouseOut = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest?.('a[data-ref]')) scheduleHide();
+  };
+
+  const Tag = inline ? 'span' : 'div';
+  return (
+    <>
+      <Tag
+        className={className}
+        onClick={handleClick}
+        onMouseOver={e => showPreview(e, false)}
+        onMouseOut={handleMouseOut}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+      {preview && (
+        <ReferencePreview
+          preview={preview}
+          translation={translation}
+          onOpen={onOpenReference && (() => {
+            setPreview(null);
+            onOpenReference(preview.reference);
+          })}
+          onClose={() => setPreview(null)}
+          onPointerEnter={cancelHide}
+          onPointerLeave={scheduleHide}
+        />
+      )}
+    </>
+  );
+};
+
+export default LinkedMarkdown;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { ParsedReference, StudyNote } from '../types.ts';
+import { formatNoteAnchor, extractTags } from '../utils/notes.ts';
+import { renderMarkdown, getMarkdownLinkTarget } from '../utils/markdown.ts';
+import { XIcon } from './Icons.tsx';
+
+interface NoteEditorProps {
+  note: StudyNote;
+  onChange: (note: StudyNote) => void;
+  onDelete?: () => void;
+  onReferenceClick?: (reference: ParsedReference) => void;
+  onTagClick?: (tag: string) => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+const NoteEditor: React.FC<NoteEditorProps> = ({
+  note,
+  onChange,
+  onDelete,
+  onReferenceClick,
+  onTagClick,
+  placeholder = 'Write your reflections here... Markdown, #tags and references like Rom 8:28 are supported.',
+  rows = 3
+}) => {
+  // Notes with content open in preview; new, empty notes open ready for typing.
+  const [isPreview, setIsPreview] = useState(() => note.content.trim().length > 0);
+  const previewHtml = useMemo(
+    () => isPreview ? renderMarkdown(note.content, { linkReferences: true, linkTags: true }) : '',
+    [isPreview, note.content]
+  );
+  const tags = useMemo(() => extractTags(note.content), [note.content]);
+
+  const handlePreviewClick = (e: React.MouseEvent) => {
+    const target = getMarkdownLinkTarget(e);
+    if (!target) return;
+    e.preventDefault();
+    if (target.type === 'reference') onReferenceClick?.(target.reference);
+    else onTagClick?.(target.tag);
+  };
+
+  const ModeButton = ({ active, onClick, text }: { active: boolean, onClick: () => void, text: string }) => (
+    <button
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded text-xs font-medium ${active ? 'bg-amber-200 text-amber-900' : 'text-amber-700 hover:bg-amber-100'}`}
+    >
+      {text}
+    </button>
+  );
+
+  return (
+    <div className="font-sans bg-amber-50 border border-amber-200 rounded-lg p-2">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-semibold uppercase text-amber-700">{formatNoteAnchor(note)}</span>
+        <div className="flex items-center space-x-1">
+          <ModeButton active={!isPreview} onClick={() => setIsPreview(false)} text="Write" />
+          <ModeButton active={isPreview} onClick={() => setIsPreview(true)} text="Preview" />
+          {onDelete && (
+            <button onClick={onDelete} className="p-1 text-amber-600 hover:text-red-600 rounded-full" aria-label="Delete note">
+              <XIcon className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      {isPreview ? (
+        note.content.trim() ? (
+          <div
+            className="prose prose-sm max-w-none p-2 bg-white rounded-md border border-gray-200 text-gray-800"
+            onClick={handlePreviewClick}
+            dangerouslySetInnerHTML={{ __html: previewHtml }}
+          />
+        ) : (
+          <p className="p-2 text-sm text-gray-400 italic bg-white rounded-md border border-gray-200">Nothing to preview yet.</p>
+        )
+      ) : (
+        <textarea
+          value={note.content}
+          onChange={(e) => onChange({ ...note, content: e.target.value, updatedAt: new Date().toISOString() })}
+          placeholder={placeholder}
+          className="w-full p-2 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+          rows={rows}
+        />
+      )}
+      {tags.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {tags.map(tag => onTagClick ? (
+            <button
+              key={tag}
+              onClick={() => onTagClick(tag)}
+              className="text-xs text-amber-700 bg-amber-100 rounded px-1 hover:bg-amber-200"
+            >
+              #{tag}
+            </button>
+          ) : (
+            <span key={tag} className="text-xs text-amber-700 bg-amber-100 rounded px-1">#{tag}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteEditor;
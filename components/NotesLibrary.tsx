@@ -0,0 +1,189 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BIBLE_BOOKS } from '../constants.ts';
+import { Book, BookName, ChapterIdentifier, StudyNote } from '../types.ts';
+import { parseChapterKey, compareCanonical } from '../utils/scriptureReference.ts';
+import { extractTags, getNoteExcerpt, formatNoteAnchor } from '../utils/notes.ts';
+import { AnnotationIcon, MenuIcon } from './Icons.tsx';
+
+interface NotesLibraryProps {
+  notes: Record<string, StudyNote[]>;
+  onOpenNote: (chapter: ChapterIdentifier, note: StudyNote) => void;
+  // Tag to filter by when the library opens, e.g. after clicking a #tag in a note.
+  initialTag?: string | null;
+  toggleSidebar: () => void;
+}
+
+type TestamentFilter = 'all' | Book['testament'];
+type SortOrder = 'canonical' | 'updated';
+
+interface LibraryEntry {
+  chapter: ChapterIdentifier;
+  testament: Book['testament'] | null;
+  note: StudyNote;
+  tags: string[];
+  excerpt: string;
+}
+
+const formatEditedAt = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const NotesLibrary: React.FC<NotesLibraryProps> = ({ notes, onOpenNote, initialTag = null, toggleSidebar }) => {
+  const [query, setQuery] = useState('');
+  const [testament, setTestament] = useState<TestamentFilter>('all');
+  const [book, setBook] = useState<BookName | ''>('');
+  const [tag, setTag] = useState<string | null>(initialTag);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('canonical');
+
+  useEffect(() => {
+    setTag(initialTag);
+  }, [initialTag]);
+
+  // RADICALLY DEFENSIVE: Use Array.isArray to prevent module loading race conditions
+  // where a temporary empty object {} could be returned instead of an array.
+  const safeBibleBooks: readonly Book[] = useMemo(() => Array.isArray(BIBLE_BOOKS) ? BIBLE_BOOKS : [], []);
+  const filteredBooks = safeBibleBooks.filter(b => testament === 'all' || b.testament === testament);
+
+  const entries = useMemo<LibraryEntry[]>(() => {
+    return Object.entries(notes || {}).flatMap(([chapterKey, chapterNotes]) => {
+      const chapter = parseChapterKey(chapterKey);
+      if (!chapter || !Array.isArray(chapterNotes)) return [];
+      const bookTestament = safeBibleBooks.find(b => b.name === chapter.book)?.testament ?? null;
+      return chapterNotes
+        .filter(note => note.content.trim())
+        .map(note => ({
+          chapter,
+          testament: bookTestament,
+          note,
+          tags: extractTags(note.content),
+          excerpt: getNoteExcerpt(note.content),
+        }));
+    });
+  }, [notes, safeBibleBooks]);
+
+  const allTags = useMemo(() => [...new Set(entries.flatMap(e => e.tags))].sort(), [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries
+      .filter(e => testament === 'all' || e.testament === testament)
+      .filter(e => !book || e.chapter.book === book)
+      .filter(e => !tag || e.tags.includes(tag))
+      .filter(e => !needle
+        || e.note.content.toLowerCase().includes(needle)
+        || `${e.chapter.book} ${e.chapter.chapter}`.toLowerCase().includes(needle))
+      .sort((a, b) => sortOrder === 'updated'
+        ? b.note.updatedAt.localeCompare(a.note.updatedAt)
+        : compareCanonical({ ...a.chapter, verse: a.note.startVerse }, { ...b.chapter, verse: b.note.startVerse }));
+  }, [entries, query, testament, book, tag, sortOrder]);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      <header className="p-4 border-b border-gray-200 bg-white flex items-start space-x-2">
+        <button onClick={toggleSidebar} className="p-2 text-gray-600 hover:bg-gray-200 rounded-full lg:hidden">
+          <MenuIcon />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Notes</h1>
+          <p className="text-sm text-gray-500">Your study journal across every chapter.</p>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-4 bg-white border-b border-gray-200">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search your notes..."
+          className="w-full p-2 text-base border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="notes-testament" className="block text-sm font-medium text-gray-700">Testament</label>
+            <select id="notes-testament" value={testament} onChange={e => { setTestament(e.target.value as TestamentFilter); setBook(''); }} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value="all">Whole Bible</option>
+              <option value="Old">Old Testament</option>
+              <option value="New">New Testament</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="notes-book" className="block text-sm font-medium text-gray-700">Book</label>
+            <select id="notes-book" value={book} onChange={e => setBook(e.target.value as BookName | '')} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value="">All books</option>
+              {filteredBooks.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="notes-sort" className="block text-sm font-medium text-gray-700">Sort by</label>
+            <select id="notes-sort" value={sortOrder} onChange={e => setSortOrder(e.target.value as SortOrder)} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value="canonical">Bible order</option>
+              <option value="updated">Last edited</option>
+            </select>
+          </div>
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => setTag(null)}
+              className={`px-2 py-1 rounded-full text-xs ${tag === null ? 'bg-amber-600 text-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'}`}
+            >
+              All tags
+            </button>
+            {allTags.map(t => (
+              <button
+                key={t}
+                onClick={() => setTag(tag === t ? null : t)}
+                className={`px-2 py-1 rounded-full text-xs ${tag === t ? 'bg-amber-600 text-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'}`}
+              >
+                #{t}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        {entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center text-gray-500">
+            <AnnotationIcon className="h-16 w-16 mb-4 text-gray-400" />
+            <h2 className="text-xl font-semibold text-gray-700">No notes yet</h2>
+            <p>Notes you write while studying a chapter will appear here.</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              {visibleEntries.length === 0 ? 'No notes match your filters.' : `${visibleEntries.length} note${visibleEntries.length === 1 ? '' : 's'}`}
+            </p>
+            <ul className="space-y-2">
+              {visibleEntries.map(({ chapter, note, tags, excerpt }) => (
+                <li key={note.id}>
+                  <button
+                    onClick={() => onOpenNote(chapter, note)}
+                    className="w-full text-left bg-white rounded-lg shadow-sm border border-gray-200 p-3 hover:border-blue-400 transition-colors"
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <p className="text-sm font-semibold text-blue-600">
+                        {chapter.book} {chapter.chapter}
+                        <span className="ml-2 text-xs font-normal text-amber-700 uppercase">{formatNoteAnchor(note)}</span>
+                      </p>
+                      <span className="text-xs text-gray-400">{formatEditedAt(note.updatedAt)}</span>
+                    </div>
+                    <p className="text-gray-700 mt-1">{excerpt}</p>
+                    {tags.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {tags.map(t => <span key={t} className="text-xs text-amber-700 bg-amber-100 rounded px-1">#{t}</span>)}
+                      </div>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotesLibrary;
@@ -1,6 +1,8 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { getPassage } from '../services/bibleApiService';
+import { isAbortError } from '../services/bibleFetch';
 import { BIBLE_BOOKS } from '../constants';
+import { parseReference } from '../utils/scriptureReference';
 import { BookName, Passage, Book } from '../types';
 import { SpinnerIcon, BookOpenIcon, XIcon } from './Icons';
 
@@ -25,6 +27,10 @@ const ScriptureReader: React.FC = () => {
     const [selectedTranslations, setSelectedTranslations] = useState<string[]>(['kjv', 'web']);
     const [passageData, setPassageData] = useState<PassageData>({});
     const [isFetching, setIsFetching] = useState(false);
+    // The lookup in progress, cancelled when a new one starts or the reader is closed.
+    const fetchRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => fetchRef.current?.abort(), []);
 
     // RADICALLY DEFENSIVE: Use Array.isArray to prevent module loading race conditions
     // where a temporary empty object {} could be returned instead of an array.
@@ -42,8 +48,27 @@ const ScriptureReader: React.FC = () => {
             return;
         }
         
+        // Validate before hitting the network so a typo doesn't produce one error per translation.
+        fetchRef.current?.abort();
+        fetchRef.current = null;
+        let passageRef: string;
+        try {
+            passageRef = parseReference(verses.trim() ? `${book} ${chapter}:${verses}` : `${book} ${chapter}`).canonical;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Invalid reference.';
+            const invalidData: PassageData = {};
+            selectedTranslations.forEach(t => {
+                invalidData[t] = { data: null, error: message, loading: false };
+            });
+            setPassageData(invalidData);
+            setIsFetching(false);
+            return;
+        }
+
+        const controller = new AbortController();
+        const { signal } = controller;
+        fetchRef.current = controller;
         setIsFetching(true);
-        const passageRef = `${book} ${chapter}:${verses}`;
         
         const initialData: PassageData = {};
         selectedTranslations.forEach(t => {
@@ -51,22 +76,22 @@ const ScriptureReader: React.FC = () => {
         });
         setPassageData(initialData);
 
-        const results = await Promise.allSettled(
-            selectedTranslations.map(transId => getPassage(passageRef, transId))
-        );
-
-        const finalData: PassageData = {};
-        results.forEach((result, index) => {
-            const transId = selectedTranslations[index];
-            if (result.status === 'fulfilled') {
-                finalData[transId] = { data: result.value, error: null, loading: false };
-            } else {
-                finalData[transId] = { data: null, error: (result.reason as Error).message || 'Failed to fetch passage.', loading: false };
+        // Each translation is shown as soon as it arrives rather than waiting for the slowest.
+        await Promise.all(selectedTranslations.map(async transId => {
+            try {
+                const data = await getPassage(passageRef, transId, signal);
+                if (!signal.aborted) setPassageData(prev => ({ ...prev, [transId]: { data, error: null, loading: false } }));
+            } catch (error) {
+                if (isAbortError(error) || signal.aborted) return;
+                const message = error instanceof Error && error.message ? error.message : 'Failed to fetch passage.';
+                setPassageData(prev => ({ ...prev, [transId]: { data: null, error: message, loading: false } }));
             }
-        });
+        }));
 
-        setPassageData(finalData);
-        setIsFetching(false);
+        if (fetchRef.current === controller) {
+            fetchRef.current = null;
+            setIsFetching(false);
+        }
 
     }, [book, chapter, verses, selectedTranslations]);
 
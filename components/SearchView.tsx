@@ -0,0 +1,185 @@
+import React, { useState, useCallback } from 'react';
+import { BIBLE_BOOKS } from '../constants.ts';
+import { AVAILABLE_TRANSLATIONS, Book, BookName, TranslationKey } from '../types.ts';
+import { searchScripture, highlightMatches, SearchResult, SEARCHABLE_TRANSLATIONS } from '../services/searchService.ts';
+import { NotFoundError } from '../services/bibleFetch.ts';
+import { SpinnerIcon, SearchIcon, MenuIcon } from './Icons.tsx';
+
+interface SearchViewProps {
+  translation: TranslationKey;
+  onOpenResult: (book: BookName, chapter: number, verse: number) => void;
+  toggleSidebar: () => void;
+}
+
+type TestamentFilter = 'all' | Book['testament'];
+
+const ALL_TRANSLATIONS = 'all';
+
+const SearchView: React.FC<SearchViewProps> = ({ translation, onOpenResult, toggleSidebar }) => {
+  const [query, setQuery] = useState('');
+  const [testament, setTestament] = useState<TestamentFilter>('all');
+  const [book, setBook] = useState<BookName | ''>('');
+  // Searches every translation unless the user picks one.
+  const [searchTranslation, setSearchTranslation] = useState<string>(ALL_TRANSLATIONS);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  // Translations that couldn't be searched because their text isn't installed.
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // No translation's text is installed, so search can't work at all.
+  const [isDataMissing, setIsDataMissing] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // RADICALLY DEFENSIVE: Use Array.isArray to prevent module loading race conditions
+  // where a temporary empty object {} could be returned instead of an array.
+  const safeBibleBooks: readonly Book[] = Array.isArray(BIBLE_BOOKS) ? BIBLE_BOOKS : [];
+  const filteredBooks = safeBibleBooks.filter(b => testament === 'all' || b.testament === testament);
+
+  const handleSearch = useCallback(async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    setIsDataMissing(false);
+    const filters = {
+      testament: testament === 'all' ? null : testament,
+      books: book ? [book] : [],
+    };
+    // The user's own translation comes first among a verse's hits.
+    const translations = searchTranslation === ALL_TRANSLATIONS
+      ? [...SEARCHABLE_TRANSLATIONS].sort((a, b) => Number(b === translation) - Number(a === translation))
+      : [searchTranslation];
+
+    try {
+      const outcome = await searchScripture(query, translations, filters);
+      setResults(outcome.results);
+      setUnavailable(outcome.unavailable);
+    } catch (err) {
+      setResults(null);
+      setUnavailable([]);
+      if (err instanceof NotFoundError) setIsDataMissing(true);
+      else setError(err instanceof Error ? err.message : 'Search failed. Please try again.');
+    }
+    setIsSearching(false);
+  }, [query, testament, book, searchTranslation, translation]);
+
+  const translationName = (t: string) => AVAILABLE_TRANSLATIONS[t as TranslationKey] || t.toUpperCase();
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      <header className="p-4 border-b border-gray-200 bg-white flex items-start space-x-2">
+        <button onClick={toggleSidebar} className="p-2 text-gray-600 hover:bg-gray-200 rounded-full lg:hidden">
+          <MenuIcon />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Search</h1>
+          <p className="text-sm text-gray-500">Find verses by their words. Use "quotes" for phrases, and AND, OR, NOT to combine terms.</p>
+        </div>
+      </header>
+
+      <form onSubmit={handleSearch} className="p-4 space-y-4 bg-white border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder='e.g. "love one another" OR faith NOT works'
+            className="flex-1 p-2 text-base border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !query.trim()}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isSearching ? <SpinnerIcon /> : <SearchIcon className="h-5 w-5" />}
+            <span className="ml-2">Search</span>
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="search-testament" className="block text-sm font-medium text-gray-700">Testament</label>
+            <select id="search-testament" value={testament} onChange={e => { setTestament(e.target.value as TestamentFilter); setBook(''); }} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value="all">Whole Bible</option>
+              <option value="Old">Old Testament</option>
+              <option value="New">New Testament</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="search-book" className="block text-sm font-medium text-gray-700">Book</label>
+            <select id="search-book" value={book} onChange={e => setBook(e.target.value as BookName | '')} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value="">All books</option>
+              {filteredBooks.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="search-translation" className="block text-sm font-medium text-gray-700">Translation</label>
+            <select id="search-translation" value={searchTranslation} onChange={e => setSearchTranslation(e.target.value)} className="mt-1 block w-full py-2 text-base border-gray-300 sm:text-sm rounded-md">
+              <option value={ALL_TRANSLATIONS}>All translations</option>
+              {SEARCHABLE_TRANSLATIONS.map(t => (
+                <option key={t} value={t}>{translationName(t)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        {error && (
+          <div className="text-red-600 bg-red-50 p-3 rounded-md">
+            <p className="font-semibold">Error</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+        {isDataMissing && (
+          <div className="flex flex-col items-center justify-center h-full text-center text-gray-500">
+            <SearchIcon className="h-16 w-16 mb-4 text-gray-400" />
+            <h2 className="text-xl font-semibold text-gray-700">Search data not installed</h2>
+            <p className="max-w-md">
+              Search works from the offline Bible text, which isn't installed with this copy of the app. Whoever runs it can add it
+              with <code className="bg-gray-200 rounded px-1">npm run bibles</code>. Meanwhile, passages can still be opened by reference.
+            </p>
+          </div>
+        )}
+        {results === null && !error && !isDataMissing && !isSearching && (
+          <div className="flex flex-col items-center justify-center h-full text-center text-gray-500">
+            <SearchIcon className="h-16 w-16 mb-4 text-gray-400" />
+            <h2 className="text-xl font-semibold text-gray-700">Remember "that verse about..."?</h2>
+            <p>Type the words you remember and press Search.</p>
+          </div>
+        )}
+        {results !== null && (
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              {results.length === 0 ? 'No verses matched your search.' : `${results.length} verse${results.length === 1 ? '' : 's'} found.`}
+              {unavailable.length > 0 && ` ${unavailable.map(translationName).join(', ')} ${unavailable.length === 1 ? 'is' : 'are'} not installed, so ${unavailable.length === 1 ? 'it was' : 'they were'} not searched.`}
+            </p>
+            <ul className="space-y-2">
+              {results.map(result => (
+                <li key={`${result.translation}-${result.book}-${result.chapter}-${result.verse}`}>
+                  <button
+                    onClick={() => onOpenResult(result.book, result.chapter, result.verse)}
+                    className="w-full text-left bg-white rounded-lg shadow-sm border border-gray-200 p-3 hover:border-blue-400 transition-colors"
+                  >
+                    <p className="text-sm font-semibold text-blue-600">
+                      {result.book} {result.chapter}:{result.verse}
+                      <span className="ml-2 text-xs font-normal text-gray-400 uppercase">{result.translation}</span>
+                    </p>
+                    <p className="text-gray-700 font-serif leading-relaxed">
+                      {highlightMatches(result.text, result.matchedTerms).map((segment, i) =>
+                        segment.isMatch
+                          ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{segment.text}</mark>
+                          : <React.Fragment key={i}>{segment.text}</React.Fragment>
+                      )}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchView;
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { RefinementStyle } from '../services/aiPrompts.ts';
+import { diffWords, toDiffableText } from '../utils/textDiff.ts';
+
+interface SectionRefinerProps {
+  // The section as shown now. A pending suggestion is dropped when it changes (e.g. on a new chapter).
+  current: unknown;
+  // Resolves to the new version of the section, or null if it couldn't be generated.
+  onRefine: (style: RefinementStyle) => Promise<unknown | null>;
+  onKeep: (value: unknown) => void;
+}
+
+const ACTIONS: { style: RefinementStyle; label: string }[] = [
+  { style: 'regenerate', label: 'Regenerate' },
+  { style: 'deeper', label: 'Go deeper' },
+  { style: 'simpler', label: 'Simpler' },
+  { style: 'academic', label: 'More academic' },
+];
+
+/**
+ * Per-section actions that ask the AI for a new version of one section, then show it as a diff
+ * against the current one so the user can keep either.
+ */
+const SectionRefiner: React.FC<SectionRefinerProps> = ({ current, onRefine, onKeep }) => {
+  const [pendingStyle, setPendingStyle] = useState<RefinementStyle | null>(null);
+  const [suggestion, setSuggestion] = useState<{ value: unknown } | null>(null);
+  const [failed, setFailed] = useState(false);
+  // Bumped whenever the section changes, so a request started for the old one is ignored.
+  const requestId = useRef(0);
+  // Compared by content: the parent may rebuild the same section as a new object.
+  const currentText = useMemo(() => toDiffableText(current), [current]);
+
+  useEffect(() => {
+    requestId.current++;
+    setPendingStyle(null);
+    setSuggestion(null);
+    setFailed(false);
+  }, [currentText]);
+
+  const handleRefine = async (style: RefinementStyle) => {
+    const id = ++requestId.current;
+    setPendingStyle(style);
+    setSuggestion(null);
+    setFailed(false);
+    const value = await onRefine(style);
+    if (id !== requestId.current) return;
+    setPendingStyle(null);
+    if (value === null) setFailed(true);
+    else setSuggestion({ value });
+  };
+
+  const diff = useMemo(
+    () => suggestion ? diffWords(currentText, toDiffableText(suggestion.value)) : [],
+    [currentText, suggestion]
+  );
+  const hasChanges = diff.some(part => part.type !== 'same');
+
+  return (
+    <div className="mt-3 text-sm not-italic">
+      <div className="flex flex-wrap gap-2">
+        {ACTIONS.map(({ style, label }) => (
+          <button
+            key={style}
+            onClick={() => handleRefine(style)}
+            disabled={pendingStyle !== null}
+            className="px-2 py-1 rounded border border-gray-200 text-xs font-medium text-gray-600 hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {pendingStyle === style ? 'Working…' : label}
+          </button>
+        ))}
+      </div>
+
+      {failed && <p className="mt-2 text-xs text-red-600">Couldn't generate a new version of this section. Please try again.</p>}
+
+      {suggestion && (
+        <div className="mt-3 rounded-lg border border-blue-200 bg-blue-50 p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-blue-800 mb-2">
+            {hasChanges ? 'Suggested changes' : 'The new version is the same as the current one'}
+          </p>
+          {hasChanges && (
+            <p className="whitespace-pre-wrap text-gray-700 leading-relaxed">
+              {diff.map((part, index) =>
+                part.type === 'same' ? <span key={index}>{part.text}</span>
+                  : part.type === 'added' ? <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+                  : <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+              )}
+            </p>
+          )}
+          <div className="mt-3 flex gap-2">
+            {hasChanges && (
+              <button
+                onClick={() => onKeep(suggestion.value)}
+                className="px-3 py-1 rounded bg-blue-600 text-white text-xs font-semibold hover:bg-blue-700"
+              >
+                Keep new version
+              </button>
+            )}
+            <button
+              onClick={() => setSuggestion(null)}
+              className="px-3 py-1 rounded border border-gray-300 bg-white text-xs font-semibold text-gray-700 hover:bg-gray-100"
+            >
+              Keep current version
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectionRefiner;
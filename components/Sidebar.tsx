@@ -1,10 +1,15 @@
 import React, { useState } from 'react';
-import { BIBLE_BOOKS, READING_PLAN, ChapterIdentifier, BookName } from '../constants.ts';
-import { StudyMode, TranslationKey, AVAILABLE_TRANSLATIONS, Book } from '../types.ts';
-import { MenuIcon, XIcon, BookOpenIcon, CollectionIcon, BookmarkIcon, ArrowLeftIcon, LightningBoltIcon, GlobeIcon, HomeIcon, LogoutIcon, TranslateIcon, CogIcon } from './Icons.tsx';
+import { BIBLE_BOOKS, READING_PLAN, ChapterIdentifier, BookName, HIGHLIGHT_COLORS } from '../constants.ts';
+import { StudyMode, TranslationKey, AVAILABLE_TRANSLATIONS, Book, VerseHighlight, HighlightCategory, HIGHLIGHT_CATEGORIES } from '../types.ts';
+import { toChapterKey, parseChapterKey, parseVerseKey, compareCanonical } from '../utils/scriptureReference.ts';
+import { BIBLE_TEXT_PROVIDERS, BibleProviderId } from '../services/bibleTextProvider.ts';
+import AiUsagePanel from './AiUsagePanel.tsx';
+import { MenuIcon, XIcon, BookOpenIcon, CollectionIcon, BookmarkIcon, ArrowLeftIcon, LightningBoltIcon, GlobeIcon, HomeIcon, LogoutIcon, TranslateIcon, CogIcon, SearchIcon, HighlightIcon, AnnotationIcon } from './Icons.tsx';
 
 interface SidebarProps {
   isMobileOpen: boolean;
+  // Whose AI usage is shown under Preferences.
+  userId: string;
   toggleSidebar: () => void;
   studyMode: StudyMode;
   setStudyMode: (mode: StudyMode) => void;
@@ -18,10 +23,15 @@ interface SidebarProps {
   onLogout: () => void;
   translation: TranslationKey;
   onTranslationChange: (newTranslation: TranslationKey) => void;
+  textSource: BibleProviderId;
+  onTextSourceChange: (providerId: BibleProviderId) => void;
+  highlights: Record<string, VerseHighlight>;
+  onOpenVerse: (book: BookName, chapter: number, verse: number) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   isMobileOpen,
+  userId,
   toggleSidebar,
   studyMode,
   setStudyMode,
@@ -34,7 +44,11 @@ const Sidebar: React.FC<SidebarProps> = ({
   onNavigateHome,
   onLogout,
   translation,
-  onTranslationChange
+  onTranslationChange,
+  textSource,
+  onTextSourceChange,
+  highlights = {},
+  onOpenVerse
 }) => {
   // RADICALLY DEFENSIVE: Use Array.isArray to prevent module loading race conditions
   // where a temporary empty object {} could be returned instead of an array.
@@ -44,6 +58,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   const safeBookmarks = Array.isArray(bookmarks) ? bookmarks : [];
 
   const [selectedBook, setSelectedBook] = useState<BookName | null>(currentChapter?.book || 'Genesis');
+  const [highlightFilter, setHighlightFilter] = useState<HighlightCategory | null>(null);
 
   const readThroughPlanLength = Array.isArray(safeReadingPlan) ? safeReadingPlan.length : 0;
   const readThroughProgress = readThroughPlanLength > 0 
@@ -81,7 +96,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         <h3 className="px-4 pb-2 text-lg font-semibold text-gray-200">{bookData.name}</h3>
         <div className="flex-1 overflow-y-auto p-4 grid grid-cols-4 md:grid-cols-5 gap-2">
           {Array.from({ length: bookData.chapters }, (_, i) => i + 1).map((chapter) => {
-            const chapterIdentifierKey = `${bookData.name.replace(/\s/g, '_')}-${chapter}`;
+            const chapterIdentifierKey = toChapterKey({ book: bookData.name, chapter });
             const isCompleted = completedChapters.includes(chapterIdentifierKey);
             const isCurrent = currentChapter?.book === bookData.name && currentChapter?.chapter === chapter;
             const isBookmarked = bookmarks.includes(chapterIdentifierKey);
@@ -114,15 +129,13 @@ const Sidebar: React.FC<SidebarProps> = ({
           <p className="p-4 text-gray-400 text-sm">You haven't bookmarked any chapters yet.</p>
         ) : (
           bookmarks.map((bookmarkKey) => {
-            const parts = bookmarkKey.split('-');
-            const chapterStr = parts.pop() || '1';
-            const bookNameWithUnderscores = parts.join('-');
-            const book = bookNameWithUnderscores.replace(/_/g, ' ');
-            const chapter = parseInt(chapterStr, 10);
+            const bookmarkedChapter = parseChapterKey(bookmarkKey);
+            if (!bookmarkedChapter) return null;
+            const { book, chapter } = bookmarkedChapter;
             return (
               <button
                 key={bookmarkKey}
-                onClick={() => onSelectChapter(book as BookName, chapter)}
+                onClick={() => onSelectChapter(book, chapter)}
                 className={`w-full text-left px-4 py-3 transition-colors ${
                   currentChapter?.book === book && currentChapter?.chapter === chapter 
                     ? 'bg-blue-500 text-white' 
@@ -138,6 +151,58 @@ const Sidebar: React.FC<SidebarProps> = ({
     </div>
   );
 
+  const renderHighlightsList = () => {
+    const entries = Object.entries(highlights || {})
+      .flatMap(([key, highlight]) => {
+        const location = parseVerseKey(key);
+        return location && (!highlightFilter || highlight.category === highlightFilter) ? [{ key, location, highlight }] : [];
+      })
+      .sort((a, b) => compareCanonical(a.location, b.location));
+
+    return (
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <h3 className="p-4 pb-2 text-lg font-semibold text-gray-200">Highlights</h3>
+        <div className="px-4 pb-2 flex flex-wrap gap-1">
+          <button
+            onClick={() => setHighlightFilter(null)}
+            className={`px-2 py-1 rounded-full text-xs ${highlightFilter === null ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            All
+          </button>
+          {(Object.keys(HIGHLIGHT_CATEGORIES) as HighlightCategory[]).map(category => (
+            <button
+              key={category}
+              onClick={() => setHighlightFilter(category)}
+              className={`flex items-center px-2 py-1 rounded-full text-xs ${highlightFilter === category ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              <span className={`h-2 w-2 rounded-full mr-1 ${HIGHLIGHT_COLORS[category].swatch}`} />
+              {HIGHLIGHT_CATEGORIES[category]}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {entries.length === 0 ? (
+            <p className="p-4 text-gray-400 text-sm">
+              {highlightFilter ? 'No verses highlighted in this category.' : "You haven't highlighted any verses yet. Tap a verse number to select it."}
+            </p>
+          ) : (
+            entries.map(({ key, location, highlight }) => (
+              <button
+                key={key}
+                onClick={() => onOpenVerse(location.book, location.chapter, location.verse)}
+                className="w-full flex items-center text-left px-4 py-2 text-gray-300 hover:bg-gray-700/50 transition-colors"
+              >
+                <span className={`h-3 w-3 rounded-full mr-3 flex-shrink-0 ${HIGHLIGHT_COLORS[highlight.category].swatch}`} />
+                <span className="flex-1">{location.book} {location.chapter}:{location.verse}</span>
+                <span className="text-xs text-gray-500">{HIGHLIGHT_CATEGORIES[highlight.category]}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const NavButton = ({ Icon, text, onClick, active }: { Icon: React.FC<{className?: string}>, text: string, onClick: () => void, active: boolean }) => (
     <button onClick={onClick} className={`w-full flex items-center p-3 rounded-lg transition-colors text-left ${active ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
         <Icon className="h-6 w-6"/>
@@ -176,6 +241,7 @@ const Sidebar: React.FC<SidebarProps> = ({
              )}
              <NavButton Icon={GlobeIcon} text="Book Study" onClick={() => setStudyMode(StudyMode.BOOK)} active={studyMode === StudyMode.BOOK}/>
              <NavButton Icon={TranslateIcon} text="Scripture Reader" onClick={() => setStudyMode(StudyMode.SCRIPTURE_READER)} active={studyMode === StudyMode.SCRIPTURE_READER}/>
+             <NavButton Icon={SearchIcon} text="Search" onClick={() => setStudyMode(StudyMode.SEARCH)} active={studyMode === StudyMode.SEARCH}/>
              <NavButton Icon={LightningBoltIcon} text="Random Chapter" onClick={() => { setStudyMode(StudyMode.RANDOM); onRandomChapter(); }} active={studyMode === StudyMode.RANDOM}/>
         </div>
       </div>
@@ -196,6 +262,22 @@ const Sidebar: React.FC<SidebarProps> = ({
                         ))}
                     </select>
                </div>
+               <div>
+                   <label htmlFor="text-source-select" className="block text-sm font-medium text-gray-300 mb-1">Text Source</label>
+                   <select
+                        id="text-source-select"
+                        value={textSource}
+                        onChange={(e) => onTextSourceChange(e.target.value as BibleProviderId)}
+                        className="w-full p-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500"
+                    >
+                        {Object.values(BIBLE_TEXT_PROVIDERS)
+                            .filter(provider => provider.supportsTranslation(translation))
+                            .map(provider => (
+                                <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
+                    </select>
+               </div>
+               <AiUsagePanel userId={userId} />
            </div>
        </div>
 
@@ -203,6 +285,8 @@ const Sidebar: React.FC<SidebarProps> = ({
         <h2 className="text-xs font-semibold uppercase text-gray-400 mb-2">Account</h2>
         <div className="space-y-2">
              <NavButton Icon={BookmarkIcon} text="Bookmarks" onClick={() => setStudyMode(StudyMode.BOOKMARKS)} active={studyMode === StudyMode.BOOKMARKS}/>
+             <NavButton Icon={HighlightIcon} text="Highlights" onClick={() => setStudyMode(StudyMode.HIGHLIGHTS)} active={studyMode === StudyMode.HIGHLIGHTS}/>
+             <NavButton Icon={AnnotationIcon} text="Notes" onClick={() => setStudyMode(StudyMode.NOTES)} active={studyMode === StudyMode.NOTES}/>
         </div>
       </div>
 
@@ -212,6 +296,16 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <h3 className="font-semibold text-lg text-gray-200 mb-2">Scripture Reader</h3>
                 <p className="text-sm">Use the main view to select and compare passages across different translations.</p>
             </div>
+        ) : studyMode === StudyMode.SEARCH ? (
+             <div className="p-4 text-center text-gray-400">
+                <h3 className="font-semibold text-lg text-gray-200 mb-2">Search</h3>
+                <p className="text-sm">Search works offline against the bundled translations. Open a result to study its chapter.</p>
+            </div>
+        ) : studyMode === StudyMode.NOTES ? (
+             <div className="p-4 text-center text-gray-400">
+                <h3 className="font-semibold text-lg text-gray-200 mb-2">Notes</h3>
+                <p className="text-sm">Browse every note you've written. Search, filter by book or #tag, and open a note to return to its chapter.</p>
+            </div>
         ) : studyMode === StudyMode.READ_THROUGH ? (
             <div className="p-4 text-center text-gray-400">
                 <h3 className="font-semibold text-lg text-gray-200 mb-2">Reading Plan</h3>
@@ -219,6 +313,8 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
         ) : studyMode === StudyMode.BOOKMARKS ? (
             renderBookmarksList()
+        ) : studyMode === StudyMode.HIGHLIGHTS ? (
+            renderHighlightsList()
         ) : (
             selectedBook ? renderChapterList() : renderBookList()
         )}
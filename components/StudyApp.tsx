@@ -1,14 +1,25 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Sidebar from './Sidebar.tsx';
 import StudyView from './StudyView.tsx';
 import EnrichmentPanel from './EnrichmentPanel.tsx';
-import { StudyMode, AllEnrichmentData, DeepDiveData, UserData, TranslationKey, Verse, Book } from '../types.ts';
+import { StudyMode, AllEnrichmentData, DeepDiveData, UserData, TranslationKey, Verse, Book, HighlightCategory, VerseHighlight, StudyNote, ParsedReference, VerseQuestion } from '../types.ts';
 import { BIBLE_BOOKS, READING_PLAN, ChapterIdentifier, BookName } from '../constants.ts';
-import { getAllChapterEnrichments, getChapterDeepDive } from '../services/geminiService.ts';
+import { getAllChapterEnrichments, getChapterDeepDive, canCacheAiContent, loadCachedChapterContent, toCachedChapterContent, isCachedContentOutdated, refineStudySection, withEditedContent, AiContent, EMPTY_DEEP_DIVE, EMPTY_ENRICHMENTS } from '../services/aiService.ts';
+import type { AiContentKind, SectionRefinementRequest } from '../services/aiPrompts.ts';
 import { robustSafeParse } from '../utils/cache.ts'; // Robust cache parsing
 import { getChapterTextFromApi } from '../services/bibleApiService.ts';
+import { BibleTextError } from '../services/bibleFetch.ts';
+import { toChapterKey, parseChapterKey, toVerseKey, parseVerseKey } from '../utils/scriptureReference.ts';
+import { findBacklinks, NoteBacklink } from '../utils/notes.ts';
+import { useNoteAutosave } from '../hooks/useNoteAutosave.ts';
+import { useCitationChecks } from '../hooks/useCitationChecks.ts';
+import { useAiUsage } from '../hooks/useAiUsage.ts';
+import { setAiUsageUser, AiUsageStatus } from '../services/aiUsage.ts';
+import { getProviderPreference, setProviderPreference, BibleProviderId } from '../services/bibleTextProvider.ts';
 import { BookOpenIcon, SpinnerIcon } from './Icons.tsx';
 import ScriptureReader from './ScriptureReader.tsx';
+import SearchView from './SearchView.tsx';
+import NotesLibrary from './NotesLibrary.tsx';
 
 interface StudyAppProps {
   userData: UserData | null;
@@ -18,7 +29,7 @@ interface StudyAppProps {
 }
 
 const getCacheKey = (identifier: ChapterIdentifier, translation: TranslationKey): string => {
-    return `${identifier.book.replace(/\s/g, '_')}-${identifier.chapter}-${translation}`;
+    return `${toChapterKey(identifier)}-${translation}`;
 };
 
 export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavigateHome }: StudyAppProps) {
@@ -44,13 +55,35 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
   if (!Array.isArray(safeCompletedChapters)) safeCompletedChapters = [];
   let safeBookmarks = Array.isArray(userData.bookmarks) ? userData.bookmarks : [];
   if (!Array.isArray(safeBookmarks)) safeBookmarks = [];
-  const safeNotes = (userData.notes && typeof userData.notes === 'object') ? userData.notes : {};
+  const savedNotes: Record<string, StudyNote[]> = useMemo(
+    () => (userData.notes && typeof userData.notes === 'object') ? userData.notes : {},
+    [userData.notes]
+  );
+  // Notes include unsaved drafts; edits are written in batches once typing pauses.
+  const persistNotes = useCallback((notes: Record<string, StudyNote[]>) => onUpdateUserData({ notes }), [onUpdateUserData]);
+  const {
+    notes: safeNotes,
+    saveNote,
+    deleteNote,
+    status: noteSaveStatus,
+    retry: retryNoteSave,
+  } = useNoteAutosave({ userId: id, savedNotes, persist: persistNotes });
+  const safeHighlights: Record<string, VerseHighlight> = (userData.highlights && typeof userData.highlights === 'object') ? userData.highlights : {};
   // Defensive: Always parse cachedContent from localStorage if present, else fallback to userData
   const [cacheResetBanner, setCacheResetBanner] = useState(false);
   let safeCachedContent = userData.cachedContent || {};
   safeCachedContent = robustSafeParse('cachedContent', safeCachedContent, () => setCacheResetBanner(true));
   if (typeof safeCachedContent !== 'object' || safeCachedContent === null) safeCachedContent = {};
   const safeTranslation = userData.translation || 'web';
+
+  // AI requests count towards this user's usage limits. Declared before the effects that load
+  // study content, so it is set first.
+  useEffect(() => {
+    setAiUsageUser(id);
+  }, [id]);
+  const aiUsage = useAiUsage(id);
+  // The usage warning can be dismissed; it shows again if the status changes.
+  const [dismissedUsageStatus, setDismissedUsageStatus] = useState<AiUsageStatus | null>(null);
   
   // RADICALLY DEFENSIVE: Use Array.isArray to prevent module loading race conditions
   // where a temporary empty object {} could be returned instead of an array.
@@ -75,6 +108,8 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
   const [verses, setVerses] = useState<Verse[]>([]);
   const [deepDiveData, setDeepDiveData] = useState<DeepDiveData | null>(null);
   const [allEnrichmentData, setAllEnrichmentData] = useState<AllEnrichmentData | null>(null);
+  // True while the deep dive and enrichments stream in; they may be partly shown meanwhile.
+  const [isGeneratingContent, setIsGeneratingContent] = useState(false);
 
   // All downstream logic now uses the guaranteed-safe variables.
   const currentChapter = useMemo(() => {
@@ -88,57 +123,97 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
   }, [safeStudyMode, safeReadThroughIndex, safeUserSelectedChapter, safeReadingPlan]);
 
   const cacheKey = useMemo(() => currentChapter ? getCacheKey(currentChapter, safeTranslation) : null, [currentChapter, safeTranslation]);
-  const chapterIdentifierKey = useMemo(() => currentChapter ? `${currentChapter.book.replace(/\s/g, '_')}-${currentChapter.chapter}` : null, [currentChapter]);
+  const chapterIdentifierKey = useMemo(() => currentChapter ? toChapterKey(currentChapter) : null, [currentChapter]);
+  // Lets async work that finishes after the user has moved on tell that it's out of date.
+  const cacheKeyRef = useRef(cacheKey);
+  cacheKeyRef.current = cacheKey;
+
+  // Caching is best-effort; a failed write shouldn't hide the chapter that just loaded.
+  const cacheChapterContent = useCallback((key: string, chapterVerses: Verse[], deepDive: AiContent<DeepDiveData>, enrichments: AiContent<AllEnrichmentData>) =>
+    onUpdateUserData({
+      cachedContent: { ...safeCachedContent, [key]: toCachedChapterContent(chapterVerses, deepDive, enrichments) }
+    }).catch(error => console.error("Failed to cache chapter data:", error)),
+  [onUpdateUserData, safeCachedContent]);
+
+  // Chapters whose outdated cached content is being regenerated in the background.
+  const refreshingKeys = useRef(new Set<string>());
+
+  // The chapter whose content is loading. It's cancelled when the user moves to another chapter,
+  // so a late response can't land on the wrong one.
+  const loadingRef = useRef<{ key: string; controller: AbortController } | null>(null);
+  // The chapter whose text is on screen. Reloading it (e.g. after its content is cached or user
+  // data is merged) swaps the content in place rather than showing the loading state again.
+  const [shownKey, setShownKey] = useState<string | null>(null);
+  const shownKeyRef = useRef(shownKey);
+  shownKeyRef.current = shownKey;
+  useEffect(() => () => {
+    loadingRef.current?.controller.abort();
+    loadingRef.current = null;
+  }, []);
 
   useEffect(() => {
-    if (currentChapter && cacheKey && safeStudyMode !== StudyMode.SCRIPTURE_READER) {
+    if (loadingRef.current && loadingRef.current.key !== cacheKey) {
+      loadingRef.current.controller.abort();
+      loadingRef.current = null;
+    }
+
+    if (currentChapter && cacheKey && safeStudyMode !== StudyMode.SCRIPTURE_READER && safeStudyMode !== StudyMode.SEARCH && safeStudyMode !== StudyMode.NOTES) {
+      // Already loading this chapter; the effect also re-runs when user data changes.
+      if (loadingRef.current) return;
+      const controller = new AbortController();
+      const { signal } = controller;
+      loadingRef.current = { key: cacheKey, controller };
+
       const fetchAllChapterData = async () => {
-        setIsChapterLoading(true);
+        if (shownKeyRef.current !== cacheKey) setIsChapterLoading(true);
 
         const cachedData = safeCachedContent?.[cacheKey];
-        if (cachedData) {
+        // Cached AI content that is gone or no longer valid is regenerated.
+        const cachedAiContent = cachedData ? await loadCachedChapterContent(cachedData) : null;
+        if (signal.aborted) return;
+        if (cachedData && cachedAiContent) {
+            setShownKey(cacheKey);
             setVerses(cachedData.verses);
-            setDeepDiveData(cachedData.deepDiveData);
-            setAllEnrichmentData(cachedData.allEnrichmentData);
+            setDeepDiveData(cachedAiContent.deepDive);
+            setAllEnrichmentData(cachedAiContent.enrichments);
+            setIsGeneratingContent(false);
             setIsChapterLoading(false);
+
+            // Content from an older prompt version stays on screen while a fresh copy is generated.
+            // Once it's cached this effect runs again and shows it.
+            if (isCachedContentOutdated(cachedData) && canCacheAiContent() && !refreshingKeys.current.has(cacheKey)) {
+                refreshingKeys.current.add(cacheKey);
+                const passage = { identifier: currentChapter, translation: safeTranslation, verses: cachedData.verses };
+                Promise.all([getChapterDeepDive(passage), getAllChapterEnrichments(passage)])
+                    .then(([deepDive, enrichments]) => {
+                        if (deepDive && enrichments) return cacheChapterContent(cacheKey, cachedData.verses, deepDive, enrichments);
+                    })
+                    .finally(() => refreshingKeys.current.delete(cacheKey));
+            }
             return;
         }
 
+        setShownKey(null);
+        setIsChapterLoading(true);
         setVerses([]);
         setDeepDiveData(null);
-        setAllEnrichmentData(null); 
-        
+        setAllEnrichmentData(null);
+        setIsGeneratingContent(true);
+
+        // The text is shown as soon as it arrives, and the study content section by section as it
+        // streams in. The content is generated from the text, so its quotations match it.
+        let chapterVerses: Verse[] = [];
         try {
-          // Fetch text first, as it's the most critical piece of content.
-          const chapterVerses = await getChapterTextFromApi(currentChapter, safeTranslation);
+          chapterVerses = await getChapterTextFromApi(currentChapter, safeTranslation, signal);
+          if (signal.aborted) return;
           setVerses(chapterVerses);
-
-          // If text fails, we still show the error message but can fetch enrichments.
-          const [deepDive, enrichments] = await Promise.all([
-            getChapterDeepDive(currentChapter),
-            getAllChapterEnrichments(currentChapter)
-          ]);
-
-          setDeepDiveData(deepDive);
-          setAllEnrichmentData(enrichments);
-          
-          // Cache only if all data points are successfully fetched.
-          if (chapterVerses.length > 0 && deepDive && enrichments) {
-            const dataToCache = {
-                verses: chapterVerses,
-                deepDiveData: deepDive,
-                allEnrichmentData: enrichments
-            };
-            await onUpdateUserData({ 
-                cachedContent: { ...safeCachedContent, [cacheKey]: dataToCache } 
-            });
-          }
-        
         } catch (error) {
+            if (signal.aborted) return;
             console.error("Failed to fetch chapter data:", error);
-            const errorMessage = (error instanceof Error && error.message.includes("quota"))
-                 ? 'Failed to load chapter data: Daily API quota exceeded. Please try again tomorrow.'
-                 : `There was an error loading the chapter text: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`;
+            // Text source errors say what went wrong and what to do about it.
+            const errorMessage = error instanceof BibleTextError
+                ? `There was an error loading the chapter text. ${error.message}`
+                : 'There was an error loading the chapter text. Please try again.';
             
             setVerses([{
                 book_id: '',
@@ -147,24 +222,98 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
                 verse: 0, // Special value to indicate an error message
                 text: errorMessage
             }]);
-             
-             setAllEnrichmentData({
-                crossReferences: [],
-                wordStudies: [],
-                historicalContext: { geography: '', customs: '', politicalClimate: '' },
-                literaryAnalysis: { structure: '', themes: [] },
-                interpretations: []
-            });
         } finally {
-            setIsChapterLoading(false);
+            if (!signal.aborted) {
+                setShownKey(cacheKey);
+                setIsChapterLoading(false);
+            }
+        }
+        if (signal.aborted) return;
+
+        const passage = { identifier: currentChapter, translation: safeTranslation, verses: chapterVerses };
+        const [deepDive, enrichments] = await Promise.all([
+            getChapterDeepDive(passage, {
+                signal,
+                onPartial: partial => {
+                    if (!signal.aborted) setDeepDiveData(current => ({ ...EMPTY_DEEP_DIVE, ...current, ...partial }));
+                },
+            }),
+            getAllChapterEnrichments(passage, {
+                signal,
+                onPartial: partial => {
+                    if (!signal.aborted) setAllEnrichmentData(current => ({ ...current, ...partial }));
+                },
+            }),
+        ]);
+        if (signal.aborted) return;
+        setDeepDiveData(deepDive?.data ?? null);
+        setAllEnrichmentData(enrichments?.data ?? EMPTY_ENRICHMENTS);
+        setIsGeneratingContent(false);
+
+        // Cache only if all data points are successfully fetched, and never sample content.
+        if (chapterVerses.length > 0 && deepDive && enrichments && canCacheAiContent()) {
+          await cacheChapterContent(cacheKey, chapterVerses, deepDive, enrichments);
         }
       };
       
-      fetchAllChapterData();
+      fetchAllChapterData().finally(() => {
+        if (loadingRef.current?.controller === controller) loadingRef.current = null;
+      });
     } else {
         setIsChapterLoading(false);
+        setIsGeneratingContent(false);
+    }
+  }, [currentChapter, safeStudyMode, id, cacheKey, safeTranslation, onUpdateUserData, safeCachedContent, cacheChapterContent]);
+
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  // Generates the chapter's study content afresh, e.g. when the user finds it unhelpful.
+  const handleRegenerate = useCallback(async () => {
+    const hasText = verses.length > 0 && verses[0].verse !== 0;
+    if (!currentChapter || !cacheKey || !hasText) return;
+    const key = cacheKey;
+    setIsRegenerating(true);
+    try {
+      const passage = { identifier: currentChapter, translation: safeTranslation, verses };
+      const [deepDive, enrichments] = await Promise.all([
+        getChapterDeepDive(passage, { regenerate: true }),
+        getAllChapterEnrichments(passage, { regenerate: true })
+      ]);
+      if (cacheKeyRef.current === key) {
+        if (deepDive) setDeepDiveData(deepDive.data);
+        if (enrichments) setAllEnrichmentData(enrichments.data);
+      }
+      if (deepDive && enrichments && canCacheAiContent()) {
+        await cacheChapterContent(key, verses, deepDive, enrichments);
+      }
+    } finally {
+      setIsRegenerating(false);
+    }
+  }, [currentChapter, cacheKey, safeTranslation, verses, cacheChapterContent]);
+
+  const handleRefineSection = useCallback(async (request: SectionRefinementRequest) => {
+    if (!currentChapter) return null;
+    const hasText = verses.length > 0 && verses[0].verse !== 0;
+    const response = await refineStudySection({ identifier: currentChapter, translation: safeTranslation, verses: hasText ? verses : [] }, request);
+    return response ? response.data : null;
+  }, [currentChapter, safeTranslation, verses]);
+
+  // Keeps a refined section in place of the old one, for this user only.
+  const handleKeepSection = useCallback((kind: AiContentKind, section: string, value: unknown) => {
+    const edited = kind === 'deepDive'
+      ? deepDiveData && { ...deepDiveData, [section]: value }
+      : allEnrichmentData && { ...allEnrichmentData, [section]: value };
+    if (!edited || !cacheKey) return;
+    if (kind === 'deepDive') setDeepDiveData(edited as DeepDiveData);
+    else setAllEnrichmentData(edited as AllEnrichmentData);
+
+    const cached = safeCachedContent[cacheKey];
+    if (cached && canCacheAiContent()) {
+      onUpdateUserData({
+        cachedContent: { ...safeCachedContent, [cacheKey]: withEditedContent(cached, kind, edited) }
+      }).catch(error => console.error("Failed to cache edited chapter data:", error));
     }
-  }, [currentChapter, safeStudyMode, id, cacheKey, safeTranslation, onUpdateUserData, safeCachedContent]);
+  }, [deepDiveData, allEnrichmentData, cacheKey, safeCachedContent, onUpdateUserData]);
 
 
   const setStudyModeState = (mode: StudyMode) => onUpdateUserData({ studyMode: mode });
@@ -173,11 +322,71 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
     await onUpdateUserData({ translation: newTranslation });
   };
 
+  // The text source is a per-device choice, so it lives in localStorage rather than the profile.
+  const [textSource, setTextSource] = useState<BibleProviderId>(() => getProviderPreference(safeTranslation));
+
+  useEffect(() => {
+    setTextSource(getProviderPreference(safeTranslation));
+  }, [safeTranslation]);
+
+  const handleTextSourceChange = (providerId: BibleProviderId) => {
+    setProviderPreference(safeTranslation, providerId);
+    setTextSource(providerId);
+  };
+
   const handleSelectChapter = useCallback(async (book: BookName, chapter: number) => {
     await onUpdateUserData({ userSelectedChapter: { book, chapter } });
     setIsSidebarOpen(false);
   }, [onUpdateUserData]);
 
+  // Verse to scroll to once its chapter renders, e.g. after opening a search result. It's kept with
+  // its chapter so the chapter still on screen while the new one loads can't take it.
+  const [focusTarget, setFocusTarget] = useState<{ chapterKey: string; verse: number } | null>(null);
+  const focusVerse = focusTarget && focusTarget.chapterKey === chapterIdentifierKey && shownKey === cacheKey ? focusTarget.verse : null;
+  // A verse range to ask the chat about, until the chat panel has taken it.
+  const [verseQuestion, setVerseQuestion] = useState<VerseQuestion | null>(null);
+
+  const handleOpenVerse = useCallback(async (book: BookName, chapter: number, verse: number) => {
+    setFocusTarget({ chapterKey: toChapterKey({ book, chapter }), verse });
+    await onUpdateUserData({ userSelectedChapter: { book, chapter } });
+    setIsSidebarOpen(false);
+  }, [onUpdateUserData]);
+
+  const handleOpenSearchResult = useCallback(async (book: BookName, chapter: number, verse: number) => {
+    setFocusTarget({ chapterKey: toChapterKey({ book, chapter }), verse });
+    await onUpdateUserData({ studyMode: StudyMode.BOOK, userSelectedChapter: { book, chapter } });
+  }, [onUpdateUserData]);
+
+  // Follows a reference from a note. Modes that don't show the selected chapter (the reading plan,
+  // the notes library) switch to Book mode.
+  const openLocation = useCallback(async (book: BookName, chapter: number, verse?: number) => {
+    setFocusTarget(verse === undefined ? null : { chapterKey: toChapterKey({ book, chapter }), verse });
+    const studyMode = safeStudyMode === StudyMode.READ_THROUGH || safeStudyMode === StudyMode.NOTES ? StudyMode.BOOK : safeStudyMode;
+    await onUpdateUserData({ studyMode, userSelectedChapter: { book, chapter } });
+    setIsSidebarOpen(false);
+  }, [safeStudyMode, onUpdateUserData]);
+
+  const handleOpenReference = useCallback((reference: ParsedReference) => {
+    const { start } = reference.ranges[0];
+    return openLocation(start.book, start.chapter, start.verse);
+  }, [openLocation]);
+
+  const handleOpenBacklink = useCallback(({ chapter, note }: NoteBacklink) => {
+    return openLocation(chapter.book, chapter.chapter, note.startVerse);
+  }, [openLocation]);
+
+  // Tag to pre-select in the notes library, set when a #tag is clicked in a note.
+  const [libraryTag, setLibraryTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (safeStudyMode !== StudyMode.NOTES) setLibraryTag(null);
+  }, [safeStudyMode]);
+
+  const handleOpenTag = useCallback(async (tag: string) => {
+    setLibraryTag(tag);
+    await onUpdateUserData({ studyMode: StudyMode.NOTES });
+  }, [onUpdateUserData]);
+
   const markChapterComplete = useCallback(async () => {
     if (chapterIdentifierKey && !safeCompletedChapters.includes(chapterIdentifierKey)) {
       await onUpdateUserData({ completedChapters: [...safeCompletedChapters, chapterIdentifierKey] });
@@ -228,7 +437,7 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
 
   const handleRandomChapter = useCallback(async () => {
     const allChapters = safeBibleBooks.flatMap(book =>
-      Array.from({ length: book.chapters }, (_, i) => `${book.name.replace(/\s/g, '_')}-${i + 1}`)
+      Array.from({ length: book.chapters }, (_, i) => toChapterKey({ book: book.name, chapter: i + 1 }))
     );
     const unreadChapters = allChapters.filter(ch => !safeCompletedChapters.includes(ch));
     
@@ -239,12 +448,9 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
       await onUpdateUserData({ completedChapters: [] });
       chapterToSetKey = allChapters[Math.floor(Math.random() * allChapters.length)];
     }
-    const parts = chapterToSetKey.split('-');
-    const chapterStr = parts.pop();
-    const bookNameWithUnderscores = parts.join('-');
-    const book = bookNameWithUnderscores.replace(/_/g, ' ') as BookName;
-    const chapter = parseInt(chapterStr!, 10);
-    await onUpdateUserData({ userSelectedChapter: { book, chapter } });
+    const chapterToSet = parseChapterKey(chapterToSetKey);
+    if (!chapterToSet) return;
+    await onUpdateUserData({ userSelectedChapter: chapterToSet });
     setIsSidebarOpen(false);
   }, [safeCompletedChapters, onUpdateUserData, safeBibleBooks]);
 
@@ -256,34 +462,131 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
     await onUpdateUserData({ bookmarks: newBookmarks });
   }, [chapterIdentifierKey, safeBookmarks, onUpdateUserData]);
   
-  const handleNoteChange = useCallback(async (newNote: string) => {
-    if(!chapterIdentifierKey) return;
-    const newNotes = {...safeNotes, [chapterIdentifierKey]: newNote};
-    await onUpdateUserData({ notes: newNotes });
-  }, [chapterIdentifierKey, safeNotes, onUpdateUserData]);
+  const handleSaveNote = useCallback((note: StudyNote) => {
+    if (chapterIdentifierKey) saveNote(chapterIdentifierKey, note);
+  }, [chapterIdentifierKey, saveNote]);
+
+  const handleDeleteNote = useCallback((noteId: string) => {
+    if (chapterIdentifierKey) deleteNote(chapterIdentifierKey, noteId);
+  }, [chapterIdentifierKey, deleteNote]);
+
+  const chapterNotes = useMemo(() => safeNotes?.[chapterIdentifierKey || ''] || [], [safeNotes, chapterIdentifierKey]);
+
+  const handleAskAboutVerses = useCallback((startVerse: number, endVerse: number) => {
+    if (!chapterIdentifierKey) return;
+    setVerseQuestion({ chapterKey: chapterIdentifierKey, startVerse, endVerse });
+    setIsEnrichmentOpen(true);
+    setIsEnrichmentCollapsed(false);
+  }, [chapterIdentifierKey]);
+
+  const backlinks = useMemo(() => currentChapter ? findBacklinks(safeNotes, currentChapter) : [], [safeNotes, currentChapter]);
+
+  // References the AI cited, checked against the real text in the background.
+  const citedReferences = useMemo(() => [
+    ...(deepDiveData?.keyVerses ?? []).map(item => item.verse),
+    ...(allEnrichmentData?.crossReferences ?? []).map(item => item.reference),
+  ], [deepDiveData, allEnrichmentData]);
+  const citationChecks = useCitationChecks(citedReferences, safeTranslation);
+
+  // Cross-references to passages that don't exist are dropped rather than shown with a warning.
+  const { verifiedEnrichmentData, removedCrossReferences } = useMemo(() => {
+    if (!allEnrichmentData?.crossReferences) return { verifiedEnrichmentData: allEnrichmentData, removedCrossReferences: [] };
+    const isInvalid = (reference: string) => citationChecks[reference]?.status === 'invalid';
+    return {
+      verifiedEnrichmentData: { ...allEnrichmentData, crossReferences: allEnrichmentData.crossReferences.filter(item => !isInvalid(item.reference)) },
+      removedCrossReferences: allEnrichmentData.crossReferences.filter(item => isInvalid(item.reference)),
+    };
+  }, [allEnrichmentData, citationChecks]);
+
+  const chapterHighlights = useMemo(() => {
+    const result: Record<number, HighlightCategory> = {};
+    if (!currentChapter) return result;
+    Object.entries(safeHighlights).forEach(([key, highlight]) => {
+      const location = parseVerseKey(key);
+      if (location && location.book === currentChapter.book && location.chapter === currentChapter.chapter) {
+        result[location.verse] = highlight.category;
+      }
+    });
+    return result;
+  }, [safeHighlights, currentChapter]);
+
+  const handleApplyHighlight = useCallback(async (verseNumbers: number[], category: HighlightCategory | null) => {
+    if (!currentChapter || verseNumbers.length === 0) return;
+    const newHighlights = { ...safeHighlights };
+    const createdAt = new Date().toISOString();
+    verseNumbers.forEach(verse => {
+      const key = toVerseKey({ ...currentChapter, verse });
+      if (category) {
+        newHighlights[key] = { category, createdAt };
+      } else {
+        delete newHighlights[key];
+      }
+    });
+    await onUpdateUserData({ highlights: newHighlights });
+  }, [currentChapter, safeHighlights, onUpdateUserData]);
 
   const renderMainContent = () => {
     if (safeStudyMode === StudyMode.SCRIPTURE_READER) {
       return <ScriptureReader />;
     }
 
+    if (safeStudyMode === StudyMode.SEARCH) {
+      return (
+        <SearchView
+          translation={safeTranslation}
+          onOpenResult={handleOpenSearchResult}
+          toggleSidebar={() => setIsSidebarOpen(true)}
+        />
+      );
+    }
+
+    if (safeStudyMode === StudyMode.NOTES) {
+      return (
+        <NotesLibrary
+          notes={safeNotes}
+          onOpenNote={(chapter, note) => openLocation(chapter.book, chapter.chapter, note.startVerse)}
+          initialTag={libraryTag}
+          toggleSidebar={() => setIsSidebarOpen(true)}
+        />
+      );
+    }
+
     if (currentChapter) {
       return (
         <StudyView
           isLoading={isChapterLoading}
           chapterIdentifier={currentChapter}
           verses={verses}
-          enrichmentData={allEnrichmentData}
+          enrichmentData={verifiedEnrichmentData}
           deepDiveData={deepDiveData}
+          citationChecks={citationChecks}
+          translation={safeTranslation}
+          onRegenerate={handleRegenerate}
+          isRegenerating={isRegenerating}
+          isGeneratingContent={isGeneratingContent}
+          onRefineSection={handleRefineSection}
+          onKeepSection={handleKeepSection}
           onNext={handleNextChapter}
           onPrevious={handlePreviousChapter}
           onMarkComplete={markChapterComplete}
           isBookmarked={safeBookmarks.includes(chapterIdentifierKey || '')}
           onToggleBookmark={handleToggleBookmark}
-          note={safeNotes?.[chapterIdentifierKey || ''] || ''}
-          onNoteChange={handleNoteChange}
+          notes={chapterNotes}
+          onSaveNote={handleSaveNote}
+          onDeleteNote={handleDeleteNote}
+          onAskAboutVerses={handleAskAboutVerses}
+          noteSaveStatus={noteSaveStatus}
+          onRetryNoteSave={retryNoteSave}
+          backlinks={backlinks}
+          onOpenReference={handleOpenReference}
+          onOpenBacklink={handleOpenBacklink}
+          onOpenTag={handleOpenTag}
           toggleSidebar={() => setIsSidebarOpen(true)}
           toggleEnrichment={() => setIsEnrichmentOpen(true)}
+          focusVerse={focusVerse}
+          onFocusVerseHandled={() => setFocusTarget(null)}
+          highlights={chapterHighlights}
+          onApplyHighlight={handleApplyHighlight}
         />
       );
     }
@@ -307,9 +610,18 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
           <button onClick={() => setCacheResetBanner(false)} className="ml-4 px-3 py-1 rounded bg-yellow-200 hover:bg-yellow-300 text-yellow-900">Dismiss</button>
         </div>
       )}
+      {aiUsage.status !== 'ok' && aiUsage.status !== dismissedUsageStatus && (
+        <div className="fixed top-0 left-0 right-0 z-50 bg-blue-50 border-b border-blue-300 text-blue-900 py-2 px-4 text-center text-sm shadow">
+          {aiUsage.status === 'limited'
+            ? "You've reached today's limit for AI study content. Chapters you've already studied still open, and the limit resets at midnight."
+            : `You've used most of today's AI study content (${aiUsage.today.requests} of ${aiUsage.limits.dailyRequests} requests). Limits can be changed under Preferences.`}
+          <button onClick={() => setDismissedUsageStatus(aiUsage.status)} className="ml-4 px-3 py-1 rounded bg-blue-100 hover:bg-blue-200 font-semibold">Dismiss</button>
+        </div>
+      )}
       <div className="relative flex h-screen max-h-screen font-sans bg-gray-50 overflow-hidden">
         <Sidebar
           isMobileOpen={isSidebarOpen}
+          userId={id}
         toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
         studyMode={safeStudyMode}
         setStudyMode={setStudyModeState}
@@ -323,6 +635,10 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
         onLogout={onLogout}
         translation={safeTranslation}
         onTranslationChange={handleTranslationChange}
+        textSource={textSource}
+        onTextSourceChange={handleTextSourceChange}
+        highlights={safeHighlights}
+        onOpenVerse={handleOpenVerse}
       />
        {isSidebarOpen && <div className="lg:hidden fixed inset-0 bg-black/60 z-30" onClick={() => setIsSidebarOpen(false)} />}
 
@@ -336,7 +652,23 @@ export default function StudyApp({ userData, onUpdateUserData, onLogout, onNavig
         closePanel={() => setIsEnrichmentOpen(false)}
         isCollapsed={isEnrichmentCollapsed}
         toggleCollapse={() => setIsEnrichmentCollapsed(!isEnrichmentCollapsed)}
-        enrichmentData={allEnrichmentData}
+        enrichmentData={verifiedEnrichmentData}
+        citationChecks={citationChecks}
+        removedCrossReferences={removedCrossReferences}
+        translation={safeTranslation}
+        userId={id}
+        isGenerating={isGeneratingContent}
+        onRefineSection={handleRefineSection}
+        onKeepSection={handleKeepSection}
+        onOpenReference={reference => {
+          setIsEnrichmentOpen(false);
+          handleOpenReference(reference);
+        }}
+        verses={verses}
+        deepDiveData={deepDiveData}
+        notes={chapterNotes}
+        verseQuestion={verseQuestion}
+        onVerseQuestionTaken={() => setVerseQuestion(null)}
       />
       {isEnrichmentOpen && <div className="lg:hidden fixed inset-0 bg-black/60 z-30" onClick={() => setIsEnrichmentOpen(false)} />}
     </div>
@@ -1,7 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { ChapterIdentifier, AllEnrichmentData, CrossReference, WordStudy, Interpretation, EnrichmentType, DeepDiveData, Verse } from '../types.ts';
-import { ChevronLeftIcon, ChevronRightIcon, BookmarkIcon, CheckCircleIcon, MenuIcon, SparklesIcon, InformationCircleIcon, XIcon, SpinnerIcon } from './Icons.tsx';
+import { ChapterIdentifier, AllEnrichmentData, CrossReference, WordStudy, Interpretation, EnrichmentType, DeepDiveData, Verse, HighlightCategory, HIGHLIGHT_CATEGORIES, StudyNote, ParsedReference, CitationCheck, TranslationKey } from '../types.ts';
+import { HIGHLIGHT_COLORS } from '../constants.ts';
+import { ChevronLeftIcon, ChevronRightIcon, BookmarkIcon, CheckCircleIcon, MenuIcon, SparklesIcon, InformationCircleIcon, XIcon, SpinnerIcon, AnnotationIcon, ChatAlt2Icon } from './Icons.tsx';
 import DeepDive from './DeepDive.tsx';
+import NoteEditor from './NoteEditor.tsx';
+import CitationBadge from './CitationBadge.tsx';
+import { createNoteId, isChapterNote, sortNotes, formatNoteAnchor, NoteBacklink } from '../utils/notes.ts';
+import { toChapterKey } from '../utils/scriptureReference.ts';
+import { NoteSaveStatus } from '../hooks/useNoteAutosave.ts';
+import type { AiContentKind, SectionRefinementRequest } from '../services/aiPrompts.ts';
 
 interface StudyViewProps {
   isLoading: boolean;
@@ -9,15 +16,37 @@ interface StudyViewProps {
   verses: Verse[];
   enrichmentData: AllEnrichmentData | null;
   deepDiveData: DeepDiveData | null;
+  // Checks of the references cited in the deep dive and enrichments, keyed by citation.
+  citationChecks: Record<string, CitationCheck>;
+  translation: TranslationKey;
+  onRegenerate: () => void;
+  isRegenerating: boolean;
+  // The deep dive is still streaming in; `deepDiveData` may hold some of its sections.
+  isGeneratingContent: boolean;
+  onRefineSection: (request: SectionRefinementRequest) => Promise<unknown | null>;
+  onKeepSection: (kind: AiContentKind, section: string, value: unknown) => void;
   onNext: () => void;
   onPrevious: () => void;
   onMarkComplete: () => void;
   isBookmarked: boolean;
   onToggleBookmark: () => void;
-  note: string;
-  onNoteChange: (newNote: string) => void;
+  notes: StudyNote[];
+  onSaveNote: (note: StudyNote) => void;
+  onDeleteNote: (noteId: string) => void;
+  // Opens the chat with the selected verses quoted.
+  onAskAboutVerses: (startVerse: number, endVerse: number) => void;
+  noteSaveStatus: NoteSaveStatus;
+  onRetryNoteSave: () => void;
+  backlinks: NoteBacklink[];
+  onOpenReference: (reference: ParsedReference) => void;
+  onOpenBacklink: (backlink: NoteBacklink) => void;
+  onOpenTag: (tag: string) => void;
   toggleSidebar: () => void;
   toggleEnrichment: () => void;
+  focusVerse?: number | null;
+  onFocusVerseHandled?: () => void;
+  highlights: Record<number, HighlightCategory>;
+  onApplyHighlight: (verses: number[], category: HighlightCategory | null) => void;
 }
 
 type PopoverPosition = 'above' | 'below';
@@ -26,8 +55,9 @@ const Popover: React.FC<{
   content: any[];
   position: { top: number; left: number };
   placement: PopoverPosition;
+  citationChecks: Record<string, CitationCheck>;
   onClose: () => void;
-}> = ({ content, position, placement, onClose }) => {
+}> = ({ content, position, placement, citationChecks, onClose }) => {
   const popoverRef = useRef<HTMLDivElement>(null);
   const [maxHeight, setMaxHeight] = useState('none');
 
@@ -58,7 +88,10 @@ const Popover: React.FC<{
       case EnrichmentType.CrossReferences:
         const cr = item as CrossReference;
         return <>
-          <p className="font-semibold text-blue-700">{cr.reference}</p>
+          <p className="font-semibold text-blue-700" title={citationChecks[cr.reference]?.text}>
+            {cr.reference}
+            <CitationBadge check={citationChecks[cr.reference]} />
+          </p>
           <p className="text-gray-600">{cr.explanation}</p>
         </>;
       case EnrichmentType.WordStudies:
@@ -104,6 +137,22 @@ const Popover: React.FC<{
   );
 };
 
+const NoteSaveIndicator: React.FC<{ status: NoteSaveStatus; onRetry: () => void }> = ({ status, onRetry }) => {
+  if (status === 'saving') {
+    return <span className="text-xs text-gray-500">Saving notes…</span>;
+  }
+  if (status === 'saved') {
+    return <span className="text-xs text-green-600">Notes saved</span>;
+  }
+  if (status === 'failed') {
+    return (
+      <button onClick={onRetry} className="text-xs text-red-600 hover:underline" title="Your notes are kept on this device until they save.">
+        Save failed. Retry
+      </button>
+    );
+  }
+  return null;
+};
 
 const StudyView: React.FC<StudyViewProps> = ({
   isLoading,
@@ -111,15 +160,34 @@ const StudyView: React.FC<StudyViewProps> = ({
   verses,
   enrichmentData,
   deepDiveData,
+  citationChecks,
+  translation,
+  onRegenerate,
+  isRegenerating,
+  isGeneratingContent,
+  onRefineSection,
+  onKeepSection,
   onNext,
   onPrevious,
   onMarkComplete,
   isBookmarked,
   onToggleBookmark,
-  note,
-  onNoteChange,
+  notes,
+  onSaveNote,
+  onDeleteNote,
+  onAskAboutVerses,
+  noteSaveStatus,
+  onRetryNoteSave,
+  backlinks,
+  onOpenReference,
+  onOpenBacklink,
+  onOpenTag,
   toggleSidebar,
-  toggleEnrichment
+  toggleEnrichment,
+  focusVerse = null,
+  onFocusVerseHandled,
+  highlights,
+  onApplyHighlight
 }) => {
   const [popover, setPopover] = useState<{
     visible: boolean;
@@ -137,6 +205,94 @@ const StudyView: React.FC<StudyViewProps> = ({
     setPopover(p => ({...p, visible: false}));
   }, [isLoading, chapterIdentifier]);
 
+  const [flashVerse, setFlashVerse] = useState<number | null>(null);
+  const [selectedVerses, setSelectedVerses] = useState<number[]>([]);
+  const lastSelectedVerse = useRef<number | null>(null);
+
+  useEffect(() => {
+    setSelectedVerses([]);
+    lastSelectedVerse.current = null;
+  }, [chapterIdentifier]);
+
+  // Click toggles one verse; shift-click extends the selection from the last clicked verse.
+  const handleVerseSelect = useCallback((verseNumber: number, extend: boolean) => {
+    setSelectedVerses(prev => {
+      const anchor = lastSelectedVerse.current;
+      if (extend && anchor !== null) {
+        const [from, to] = anchor < verseNumber ? [anchor, verseNumber] : [verseNumber, anchor];
+        const range = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+        return Array.from(new Set([...prev, ...range])).sort((a, b) => a - b);
+      }
+      return prev.includes(verseNumber)
+        ? prev.filter(v => v !== verseNumber)
+        : [...prev, verseNumber].sort((a, b) => a - b);
+    });
+    lastSelectedVerse.current = verseNumber;
+  }, []);
+
+  // Verse whose notes are expanded inline below it.
+  const [openNotesVerse, setOpenNotesVerse] = useState<number | null>(null);
+
+  useEffect(() => {
+    setOpenNotesVerse(null);
+  }, [chapterIdentifier]);
+
+  const verseNotesByStart = useMemo(() => {
+    const byStart: Record<number, StudyNote[]> = {};
+    sortNotes(notes || []).filter(n => !isChapterNote(n)).forEach(note => {
+      (byStart[note.startVerse!] = byStart[note.startVerse!] || []).push(note);
+    });
+    return byStart;
+  }, [notes]);
+
+  // The chapter-level note may not exist yet; keep a stable id for each chapter's until it is first saved.
+  const draftChapterNoteIds = useRef<Record<string, string>>({});
+  const draftChapterNoteId = draftChapterNoteIds.current[toChapterKey(chapterIdentifier)] ??= createNoteId();
+  const chapterNote: StudyNote = useMemo(() => {
+    const existing = (notes || []).find(isChapterNote);
+    const now = new Date().toISOString();
+    return existing || { id: draftChapterNoteId, content: '', createdAt: now, updatedAt: now };
+  }, [notes, draftChapterNoteId]);
+
+  const handleAddVerseNote = () => {
+    if (selectedVerses.length === 0) return;
+    const now = new Date().toISOString();
+    const startVerse = selectedVerses[0];
+    const endVerse = selectedVerses[selectedVerses.length - 1];
+    onSaveNote({ id: createNoteId(), startVerse, endVerse, content: '', createdAt: now, updatedAt: now });
+    setOpenNotesVerse(startVerse);
+    setSelectedVerses([]);
+    lastSelectedVerse.current = null;
+  };
+
+  const handleAskAboutVerses = () => {
+    if (selectedVerses.length === 0) return;
+    onAskAboutVerses(selectedVerses[0], selectedVerses[selectedVerses.length - 1]);
+    setSelectedVerses([]);
+    lastSelectedVerse.current = null;
+  };
+
+  const handleApplyHighlight = (category: HighlightCategory | null) => {
+    onApplyHighlight(selectedVerses, category);
+    setSelectedVerses([]);
+    lastSelectedVerse.current = null;
+  };
+
+  useEffect(() => {
+    if (isLoading || focusVerse === null || !viewRef.current) return;
+    const verseElement = viewRef.current.querySelector(`#verse-${focusVerse}`);
+    if (!verseElement) return;
+    verseElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashVerse(focusVerse);
+    onFocusVerseHandled?.();
+  }, [isLoading, focusVerse, verses, onFocusVerseHandled]);
+
+  useEffect(() => {
+    if (flashVerse === null) return;
+    const timeoutId = window.setTimeout(() => setFlashVerse(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [flashVerse]);
+
 
   const findEnrichmentsForVerse = useCallback((verse: number) => {
     if (!enrichmentData) return [];
@@ -181,11 +337,37 @@ const StudyView: React.FC<StudyViewProps> = ({
 
     return verses.map((verse) => {
         const verseEnrichments = findEnrichmentsForVerse(verse.verse);
+        const verseNotes = verseNotesByStart[verse.verse] || [];
 
         return (
-            <span key={verse.verse} className="inline-block mb-1">
-                <sup className="font-sans font-bold text-blue-500 mr-1 select-none">{verse.verse}</sup>
-                <span className="leading-loose">{verse.text}</span>
+          <React.Fragment key={verse.verse}>
+            <span
+              id={`verse-${verse.verse}`}
+              className={`inline-block mb-1 rounded transition-colors duration-700 ${flashVerse === verse.verse ? 'bg-yellow-100' : ''}`}
+            >
+                {verseNotes.length > 0 && (
+                    <button
+                      onClick={() => setOpenNotesVerse(openNotesVerse === verse.verse ? null : verse.verse)}
+                      className="inline-block -translate-y-0.5 mr-1 text-amber-500 hover:text-amber-700 transition-colors"
+                      aria-label={`${openNotesVerse === verse.verse ? 'Hide' : 'Show'} notes on verse ${verse.verse}`}
+                      aria-expanded={openNotesVerse === verse.verse}
+                    >
+                        <AnnotationIcon className="h-4 w-4" />
+                    </button>
+                )}
+                <sup className="font-sans font-bold text-blue-500 mr-1 select-none">
+                  <button
+                    onClick={(e) => handleVerseSelect(verse.verse, e.shiftKey)}
+                    className="hover:text-blue-700"
+                    aria-pressed={selectedVerses.includes(verse.verse)}
+                    aria-label={`Select verse ${verse.verse}`}
+                  >
+                    {verse.verse}
+                  </button>
+                </sup>
+                <span className={`leading-loose rounded ${highlights[verse.verse] ? HIGHLIGHT_COLORS[highlights[verse.verse]].text : ''} ${
+                  selectedVerses.includes(verse.verse) ? 'underline decoration-blue-500 decoration-2 underline-offset-4' : ''
+                }`}>{verse.text}</span>
                 {verseEnrichments.length > 0 && (
                     <button 
                       onClick={(e) => handleAnnotationClick(e, verseEnrichments)} 
@@ -196,13 +378,28 @@ const StudyView: React.FC<StudyViewProps> = ({
                     </button>
                 )}
             </span>
+            {openNotesVerse === verse.verse && verseNotes.length > 0 && (
+              <div className="my-2 space-y-2">
+                {verseNotes.map(note => (
+                  <NoteEditor
+                    key={note.id}
+                    note={note}
+                    onChange={onSaveNote}
+                    onDelete={() => onDeleteNote(note.id)}
+                    onReferenceClick={onOpenReference}
+                    onTagClick={onOpenTag}
+                  />
+                ))}
+              </div>
+            )}
+          </React.Fragment>
         );
     });
-  }, [verses, findEnrichmentsForVerse, handleAnnotationClick]);
+  }, [verses, findEnrichmentsForVerse, handleAnnotationClick, flashVerse, highlights, selectedVerses, handleVerseSelect, verseNotesByStart, openNotesVerse, onSaveNote, onDeleteNote, onOpenReference, onOpenTag]);
 
   return (
     <div ref={viewRef} className="flex-1 flex flex-col bg-white overflow-y-auto pb-24 relative">
-      {popover.visible && <Popover content={popover.content!} position={popover.position} placement={popover.placement} onClose={() => setPopover({...popover, visible: false})}/>}
+      {popover.visible && <Popover content={popover.content!} position={popover.position} placement={popover.placement} citationChecks={citationChecks} onClose={() => setPopover({...popover, visible: false})}/>}
       <header className="sticky top-0 bg-white/80 backdrop-blur-sm p-3 border-b border-gray-200 flex justify-between items-center z-10">
         <div className="flex items-center space-x-2">
             <button onClick={toggleSidebar} className="p-2 text-gray-600 hover:bg-gray-200 rounded-full lg:hidden">
@@ -213,6 +410,7 @@ const StudyView: React.FC<StudyViewProps> = ({
             </h1>
         </div>
         <div className="flex items-center space-x-1">
+          <NoteSaveIndicator status={noteSaveStatus} onRetry={onRetryNoteSave} />
           <button
             onClick={onToggleBookmark}
             className={`p-2 rounded-full hover:bg-gray-200 transition-colors ${
@@ -243,20 +441,57 @@ const StudyView: React.FC<StudyViewProps> = ({
             </article>
 
             <div className="px-4 md:px-8">
-              <DeepDive data={deepDiveData} isLoading={isLoading} />
+              <DeepDive data={deepDiveData} isLoading={isLoading} isGenerating={isGeneratingContent} citationChecks={citationChecks} onRegenerate={onRegenerate} isRegenerating={isRegenerating}
+                translation={translation} onOpenReference={onOpenReference}
+                onRefineSection={onRefineSection} onKeepSection={onKeepSection} />
             </div>
 
             <footer className="p-4 md:px-8 mt-8">
               <div className="mb-4">
                   <h3 className="text-lg font-semibold text-gray-700 mb-2">Personal Notes</h3>
-                  <textarea
-                      value={note}
-                      onChange={(e) => onNoteChange(e.target.value)}
-                      placeholder="Write your reflections here..."
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-shadow bg-white"
-                      rows={5}
-                  />
+                  <NoteEditor note={chapterNote} onChange={onSaveNote} onReferenceClick={onOpenReference} onTagClick={onOpenTag} rows={5} />
+                  {Object.keys(verseNotesByStart).length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {Object.values(verseNotesByStart).flat().map(note => (
+                        <li key={note.id}>
+                          <button
+                            onClick={() => {
+                              setOpenNotesVerse(note.startVerse!);
+                              viewRef.current?.querySelector(`#verse-${note.startVerse}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                            }}
+                            className="w-full text-left text-gray-600 hover:text-blue-600"
+                          >
+                            <span className="font-semibold text-amber-700 mr-2">{formatNoteAnchor(note)}</span>
+                            {note.content.trim() ? note.content.slice(0, 80) : <em className="text-gray-400">Empty note</em>}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
               </div>
+              {backlinks.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-gray-700 mb-2">Referenced in Your Notes</h3>
+                  <ul className="space-y-1 text-sm">
+                    {backlinks.map(backlink => {
+                      const { chapter, note } = backlink;
+                      return (
+                      <li key={note.id}>
+                        <button
+                          onClick={() => onOpenBacklink(backlink)}
+                          className="w-full text-left text-gray-600 hover:text-blue-600"
+                        >
+                          <span className="font-semibold text-amber-700 mr-2">
+                            {chapter.book} {chapter.chapter}{isChapterNote(note) ? '' : `:${note.startVerse}`}
+                          </span>
+                          {note.content.slice(0, 80)}
+                        </button>
+                      </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
               <button
                 onClick={onMarkComplete}
                 className="w-full flex items-center justify-center py-3 px-4 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition-all duration-200"
@@ -268,6 +503,49 @@ const StudyView: React.FC<StudyViewProps> = ({
         </>
       )}
       
+      {selectedVerses.length > 0 && (
+        <div className="fixed bottom-20 lg:bottom-6 left-1/2 -translate-x-1/2 z-30 bg-white rounded-full shadow-xl border border-gray-200 px-3 py-2 flex items-center gap-x-2">
+          <span className="text-sm text-gray-600 whitespace-nowrap">
+            {selectedVerses.length} verse{selectedVerses.length === 1 ? '' : 's'}
+          </span>
+          {(Object.keys(HIGHLIGHT_CATEGORIES) as HighlightCategory[]).map(category => (
+            <button
+              key={category}
+              onClick={() => handleApplyHighlight(category)}
+              className="flex items-center px-2 py-1 rounded-full text-xs font-medium text-gray-700 hover:bg-gray-100"
+              title={`Highlight as ${HIGHLIGHT_CATEGORIES[category]}`}
+            >
+              <span className={`h-3 w-3 rounded-full mr-1 ${HIGHLIGHT_COLORS[category].swatch}`} />
+              <span className="hidden sm:inline">{HIGHLIGHT_CATEGORIES[category]}</span>
+            </button>
+          ))}
+          <button
+            onClick={handleAddVerseNote}
+            className="flex items-center px-2 py-1 rounded-full text-xs font-medium text-amber-700 hover:bg-amber-50"
+          >
+            <AnnotationIcon className="h-4 w-4 sm:mr-1" />
+            <span className="hidden sm:inline">Note</span>
+          </button>
+          <button
+            onClick={handleAskAboutVerses}
+            className="flex items-center px-2 py-1 rounded-full text-xs font-medium text-blue-700 hover:bg-blue-50"
+            title="Ask the study assistant about these verses"
+          >
+            <ChatAlt2Icon className="h-4 w-4 sm:mr-1" />
+            <span className="hidden sm:inline">Ask</span>
+          </button>
+          <button
+            onClick={() => handleApplyHighlight(null)}
+            className="px-2 py-1 rounded-full text-xs font-medium text-gray-500 hover:bg-gray-100"
+          >
+            Remove
+          </button>
+          <button onClick={() => setSelectedVerses([])} className="p-1 text-gray-400 hover:text-gray-700 rounded-full" aria-label="Clear selection">
+            <XIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Mobile Navigation */}
       <nav className="fixed bottom-0 left-0 right-0 bg-white/90 backdrop-blur-sm border-t border-gray-200 p-2 flex justify-center items-center gap-x-4 lg:hidden z-20">
           <button
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { NoteConflict, ConflictChoice } from '../services/syncService.ts';
+import { parseChapterKey, formatReference } from '../utils/scriptureReference.ts';
+import { formatNoteAnchor, getNoteExcerpt } from '../utils/notes.ts';
+import { StudyNote } from '../types.ts';
+
+interface SyncConflictDialogProps {
+  conflicts: NoteConflict[];
+  onResolve: (choices: ConflictChoice[]) => void;
+}
+
+const describeChapter = (chapterKey: string) => {
+  const chapter = parseChapterKey(chapterKey);
+  return chapter ? formatReference([{ start: chapter, end: chapter }]) : chapterKey;
+};
+
+const NoteVersion: React.FC<{ title: string; note: StudyNote | null; selected: boolean; onSelect: () => void }> = ({ title, note, selected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={`flex-1 text-left p-3 rounded-md border transition-colors ${selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'}`}
+  >
+    <p className="text-xs font-semibold uppercase text-gray-500 mb-1">{title}</p>
+    {note ? (
+      <>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{getNoteExcerpt(note.content, 400) || <em className="text-gray-400">Empty note</em>}</p>
+        <p className="mt-1 text-xs text-gray-400">Edited {new Date(note.updatedAt).toLocaleString()}</p>
+      </>
+    ) : (
+      <p className="text-sm italic text-gray-500">Deleted</p>
+    )}
+  </button>
+);
+
+/**
+ * Asks which version to keep for notes that were edited on this device and on another one.
+ */
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, onResolve }) => {
+  const [choices, setChoices] = useState<ConflictChoice[]>(() => conflicts.map(() => 'local'));
+
+  const setChoice = (index: number, choice: ConflictChoice) => {
+    setChoices(prev => prev.map((c, i) => i === index ? choice : c));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-800">Notes changed on another device</h2>
+          <p className="text-sm text-gray-500">
+            {conflicts.length === 1 ? 'This note was' : 'These notes were'} edited here and somewhere else since your last sync. Choose what to keep.
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {conflicts.map((conflict, index) => {
+            const anchorNote = conflict.local || conflict.remote;
+            return (
+              <div key={conflict.noteId}>
+                <p className="text-sm font-semibold text-gray-700 mb-2">
+                  {describeChapter(conflict.chapterKey)}
+                  {anchorNote && <span className="ml-2 text-xs font-normal text-amber-700 uppercase">{formatNoteAnchor(anchorNote)}</span>}
+                </p>
+                <div className="flex flex-col md:flex-row gap-2">
+                  <NoteVersion title="This device" note={conflict.local} selected={choices[index] === 'local'} onSelect={() => setChoice(index, 'local')} />
+                  <NoteVersion title="Other device" note={conflict.remote} selected={choices[index] === 'remote'} onSelect={() => setChoice(index, 'remote')} />
+                </div>
+                {conflict.local && conflict.remote && (
+                  <label className="mt-2 flex items-center text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={choices[index] === 'both'}
+                      onChange={e => setChoice(index, e.target.checked ? 'both' : 'local')}
+                      className="mr-2"
+                    />
+                    Keep both as separate notes
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="p-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={() => onResolve(choices)}
+            className="px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Save and sync
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
@@ -1,74 +1,83 @@
 export const BIBLE_BOOKS = [
   // Old Testament
-  { name: 'Genesis', chapters: 50, testament: 'Old' },
-  { name: 'Exodus', chapters: 40, testament: 'Old' },
-  { name: 'Leviticus', chapters: 27, testament: 'Old' },
-  { name: 'Numbers', chapters: 36, testament: 'Old' },
-  { name: 'Deuteronomy', chapters: 34, testament: 'Old' },
-  { name: 'Joshua', chapters: 24, testament: 'Old' },
-  { name: 'Judges', chapters: 21, testament: 'Old' },
-  { name: 'Ruth', chapters: 4, testament: 'Old' },
-  { name: '1 Samuel', chapters: 31, testament: 'Old' },
-  { name: '2 Samuel', chapters: 24, testament: 'Old' },
-  { name: '1 Kings', chapters: 22, testament: 'Old' },
-  { name: '2 Kings', chapters: 25, testament: 'Old' },
-  { name: '1 Chronicles', chapters: 29, testament: 'Old' },
-  { name: '2 Chronicles', chapters: 36, testament: 'Old' },
-  { name: 'Ezra', chapters: 10, testament: 'Old' },
-  { name: 'Nehemiah', chapters: 13, testament: 'Old' },
-  { name: 'Esther', chapters: 10, testament: 'Old' },
-  { name: 'Job', chapters: 42, testament: 'Old' },
-  { name: 'Psalms', chapters: 150, testament: 'Old' },
-  { name: 'Proverbs', chapters: 31, testament: 'Old' },
-  { name: 'Ecclesiastes', chapters: 12, testament: 'Old' },
-  { name: 'Song of Solomon', chapters: 8, testament: 'Old' },
-  { name: 'Isaiah', chapters: 66, testament: 'Old' },
-  { name: 'Jeremiah', chapters: 52, testament: 'Old' },
-  { name: 'Lamentations', chapters: 5, testament: 'Old' },
-  { name: 'Ezekiel', chapters: 48, testament: 'Old' },
-  { name: 'Daniel', chapters: 12, testament: 'Old' },
-  { name: 'Hosea', chapters: 14, testament: 'Old' },
-  { name: 'Joel', chapters: 3, testament: 'Old' },
-  { name: 'Amos', chapters: 9, testament: 'Old' },
-  { name: 'Obadiah', chapters: 1, testament: 'Old' },
-  { name: 'Jonah', chapters: 4, testament: 'Old' },
-  { name: 'Micah', chapters: 7, testament: 'Old' },
-  { name: 'Nahum', chapters: 3, testament: 'Old' },
-  { name: 'Habakkuk', chapters: 3, testament: 'Old' },
-  { name: 'Zephaniah', chapters: 3, testament: 'Old' },
-  { name: 'Haggai', chapters: 2, testament: 'Old' },
-  { name: 'Zechariah', chapters: 14, testament: 'Old' },
-  { name: 'Malachi', chapters: 4, testament: 'Old' },
+  { id: 'GEN', name: 'Genesis', chapters: 50, testament: 'Old' },
+  { id: 'EXO', name: 'Exodus', chapters: 40, testament: 'Old' },
+  { id: 'LEV', name: 'Leviticus', chapters: 27, testament: 'Old' },
+  { id: 'NUM', name: 'Numbers', chapters: 36, testament: 'Old' },
+  { id: 'DEU', name: 'Deuteronomy', chapters: 34, testament: 'Old' },
+  { id: 'JOS', name: 'Joshua', chapters: 24, testament: 'Old' },
+  { id: 'JDG', name: 'Judges', chapters: 21, testament: 'Old' },
+  { id: 'RUT', name: 'Ruth', chapters: 4, testament: 'Old' },
+  { id: '1SA', name: '1 Samuel', chapters: 31, testament: 'Old' },
+  { id: '2SA', name: '2 Samuel', chapters: 24, testament: 'Old' },
+  { id: '1KI', name: '1 Kings', chapters: 22, testament: 'Old' },
+  { id: '2KI', name: '2 Kings', chapters: 25, testament: 'Old' },
+  { id: '1CH', name: '1 Chronicles', chapters: 29, testament: 'Old' },
+  { id: '2CH', name: '2 Chronicles', chapters: 36, testament: 'Old' },
+  { id: 'EZR', name: 'Ezra', chapters: 10, testament: 'Old' },
+  { id: 'NEH', name: 'Nehemiah', chapters: 13, testament: 'Old' },
+  { id: 'EST', name: 'Esther', chapters: 10, testament: 'Old' },
+  { id: 'JOB', name: 'Job', chapters: 42, testament: 'Old' },
+  { id: 'PSA', name: 'Psalms', chapters: 150, testament: 'Old' },
+  { id: 'PRO', name: 'Proverbs', chapters: 31, testament: 'Old' },
+  { id: 'ECC', name: 'Ecclesiastes', chapters: 12, testament: 'Old' },
+  { id: 'SNG', name: 'Song of Solomon', chapters: 8, testament: 'Old' },
+  { id: 'ISA', name: 'Isaiah', chapters: 66, testament: 'Old' },
+  { id: 'JER', name: 'Jeremiah', chapters: 52, testament: 'Old' },
+  { id: 'LAM', name: 'Lamentations', chapters: 5, testament: 'Old' },
+  { id: 'EZK', name: 'Ezekiel', chapters: 48, testament: 'Old' },
+  { id: 'DAN', name: 'Daniel', chapters: 12, testament: 'Old' },
+  { id: 'HOS', name: 'Hosea', chapters: 14, testament: 'Old' },
+  { id: 'JOL', name: 'Joel', chapters: 3, testament: 'Old' },
+  { id: 'AMO', name: 'Amos', chapters: 9, testament: 'Old' },
+  { id: 'OBA', name: 'Obadiah', chapters: 1, testament: 'Old' },
+  { id: 'JON', name: 'Jonah', chapters: 4, testament: 'Old' },
+  { id: 'MIC', name: 'Micah', chapters: 7, testament: 'Old' },
+  { id: 'NAM', name: 'Nahum', chapters: 3, testament: 'Old' },
+  { id: 'HAB', name: 'Habakkuk', chapters: 3, testament: 'Old' },
+  { id: 'ZEP', name: 'Zephaniah', chapters: 3, testament: 'Old' },
+  { id: 'HAG', name: 'Haggai', chapters: 2, testament: 'Old' },
+  { id: 'ZEC', name: 'Zechariah', chapters: 14, testament: 'Old' },
+  { id: 'MAL', name: 'Malachi', chapters: 4, testament: 'Old' },
   // New Testament
-  { name: 'Matthew', chapters: 28, testament: 'New' },
-  { name: 'Mark', chapters: 16, testament: 'New' },
-  { name: 'Luke', chapters: 24, testament: 'New' },
-  { name: 'John', chapters: 21, testament: 'New' },
-  { name: 'Acts', chapters: 28, testament: 'New' },
-  { name: 'Romans', chapters: 16, testament: 'New' },
-  { name: '1 Corinthians', chapters: 16, testament: 'New' },
-  { name: '2 Corinthians', chapters: 13, testament: 'New' },
-  { name: 'Galatians', chapters: 6, testament: 'New' },
-  { name: 'Ephesians', chapters: 6, testament: 'New' },
-  { name: 'Philippians', chapters: 4, testament: 'New' },
-  { name: 'Colossians', chapters: 4, testament: 'New' },
-  { name: '1 Thessalonians', chapters: 5, testament: 'New' },
-  { name: '2 Thessalonians', chapters: 3, testament: 'New' },
-  { name: '1 Timothy', chapters: 6, testament: 'New' },
-  { name: '2 Timothy', chapters: 4, testament: 'New' },
-  { name: 'Titus', chapters: 3, testament: 'New' },
-  { name: 'Philemon', chapters: 1, testament: 'New' },
-  { name: 'Hebrews', chapters: 13, testament: 'New' },
-  { name: 'James', chapters: 5, testament: 'New' },
-  { name: '1 Peter', chapters: 5, testament: 'New' },
-  { name: '2 Peter', chapters: 3, testament: 'New' },
-  { name: '1 John', chapters: 5, testament: 'New' },
-  { name: '2 John', chapters: 1, testament: 'New' },
-  { name: '3 John', chapters: 1, testament: 'New' },
-  { name: 'Jude', chapters: 1, testament: 'New' },
-  { name: 'Revelation', chapters: 22, testament: 'New' },
+  { id: 'MAT', name: 'Matthew', chapters: 28, testament: 'New' },
+  { id: 'MRK', name: 'Mark', chapters: 16, testament: 'New' },
+  { id: 'LUK', name: 'Luke', chapters: 24, testament: 'New' },
+  { id: 'JHN', name: 'John', chapters: 21, testament: 'New' },
+  { id: 'ACT', name: 'Acts', chapters: 28, testament: 'New' },
+  { id: 'ROM', name: 'Romans', chapters: 16, testament: 'New' },
+  { id: '1CO', name: '1 Corinthians', chapters: 16, testament: 'New' },
+  { id: '2CO', name: '2 Corinthians', chapters: 13, testament: 'New' },
+  { id: 'GAL', name: 'Galatians', chapters: 6, testament: 'New' },
+  { id: 'EPH', name: 'Ephesians', chapters: 6, testament: 'New' },
+  { id: 'PHP', name: 'Philippians', chapters: 4, testament: 'New' },
+  { id: 'COL', name: 'Colossians', chapters: 4, testament: 'New' },
+  { id: '1TH', name: '1 Thessalonians', chapters: 5, testament: 'New' },
+  { id: '2TH', name: '2 Thessalonians', chapters: 3, testament: 'New' },
+  { id: '1TI', name: '1 Timothy', chapters: 6, testament: 'New' },
+  { id: '2TI', name: '2 Timothy', chapters: 4, testament: 'New' },
+  { id: 'TIT', name: 'Titus', chapters: 3, testament: 'New' },
+  { id: 'PHM', name: 'Philemon', chapters: 1, testament: 'New' },
+  { id: 'HEB', name: 'Hebrews', chapters: 13, testament: 'New' },
+  { id: 'JAS', name: 'James', chapters: 5, testament: 'New' },
+  { id: '1PE', name: '1 Peter', chapters: 5, testament: 'New' },
+  { id: '2PE', name: '2 Peter', chapters: 3, testament: 'New' },
+  { id: '1JN', name: '1 John', chapters: 5, testament: 'New' },
+  { id: '2JN', name: '2 John', chapters: 1, testament: 'New' },
+  { id: '3JN', name: '3 John', chapters: 1, testament: 'New' },
+  { id: 'JUD', name: 'Jude', chapters: 1, testament: 'New' },
+  { id: 'REV', name: 'Revelation', chapters: 22, testament: 'New' },
 ] as const;
 
+// Tailwind classes for each highlight category: `text` is the inline verse background, `swatch` the solid color chip.
+export const HIGHLIGHT_COLORS = {
+  promise: { text: 'bg-yellow-200/70', swatch: 'bg-yellow-400' },
+  command: { text: 'bg-red-200/70', swatch: 'bg-red-400' },
+  question: { text: 'bg-blue-200/70', swatch: 'bg-blue-400' },
+  insight: { text: 'bg-green-200/70', swatch: 'bg-green-400' },
+  prayer: { text: 'bg-purple-200/70', swatch: 'bg-purple-400' },
+} as const;
+
 export type BookName = typeof BIBLE_BOOKS[number]['name'];
 
 export interface ChapterIdentifier {
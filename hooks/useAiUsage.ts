@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { AiUsageSummary, getAiUsage, subscribeToAiUsage } from '../services/aiUsage.ts';
+
+/**
+ * A user's AI usage and limits, kept up to date as requests are made.
+ */
+export function useAiUsage(userId: string): AiUsageSummary {
+    const [summary, setSummary] = useState(() => getAiUsage(userId));
+
+    useEffect(() => {
+        setSummary(getAiUsage(userId));
+        return subscribeToAiUsage(() => setSummary(getAiUsage(userId)));
+    }, [userId]);
+
+    return summary;
+}
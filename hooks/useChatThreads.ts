@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChatThread } from '../types.ts';
+import { listChatThreads, saveChatThread, deleteChatThread } from '../services/authService.ts';
+import { sortChatThreads } from '../utils/chatThreads.ts';
+
+/**
+ * Loads a user's saved chat threads and keeps the list up to date as threads are saved, renamed
+ * and deleted. Changes show straight away; a failed write is reported through `error`.
+ */
+export function useChatThreads(userId: string) {
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setIsLoaded(false);
+        setThreads([]);
+        listChatThreads(userId)
+            .then(loaded => {
+                if (isCurrent) setThreads(loaded);
+            })
+            .catch(loadError => {
+                console.error('Failed to load chat threads:', loadError);
+                if (isCurrent) setError('Saved conversations could not be loaded.');
+            })
+            .finally(() => {
+                if (isCurrent) setIsLoaded(true);
+            });
+        return () => { isCurrent = false; };
+    }, [userId]);
+
+    const saveThread = useCallback(async (thread: ChatThread) => {
+        setThreads(current => sortChatThreads([thread, ...current.filter(saved => saved.id !== thread.id)]));
+        try {
+            await saveChatThread(userId, thread);
+            setError(null);
+        } catch (saveError) {
+            console.error('Failed to save chat thread:', saveError);
+            setError('This conversation could not be saved.');
+        }
+    }, [userId]);
+
+    const removeThread = useCallback(async (threadId: string) => {
+        setThreads(current => current.filter(saved => saved.id !== threadId));
+        try {
+            await deleteChatThread(userId, threadId);
+            setError(null);
+        } catch (deleteError) {
+            console.error('Failed to delete chat thread:', deleteError);
+            setError('The conversation could not be deleted.');
+        }
+    }, [userId]);
+
+    return { threads, isLoaded, error, saveThread, removeThread };
+}
@@ -0,0 +1,28 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CitationCheck, TranslationKey } from '../types.ts';
+import { verifyCitations } from '../services/citationService.ts';
+
+/**
+ * Checks the given AI-cited references in the background. Citations not yet checked are
+ * missing from the result.
+ */
+export function useCitationChecks(citations: string[], translation: TranslationKey): Record<string, CitationCheck> {
+    const [state, setState] = useState<{ translation: TranslationKey; checks: Record<string, CitationCheck> }>({ translation, checks: {} });
+    // Callers pass a new array on every render; only a change to its contents starts new checks.
+    const citationsKey = citations.join('\n');
+    const currentCitations = useMemo(() => citationsKey ? citationsKey.split('\n') : [], [citationsKey]);
+
+    useEffect(() => {
+        if (currentCitations.length === 0) return;
+        let cancelled = false;
+        verifyCitations(currentCitations, translation).then(checks => {
+            if (cancelled) return;
+            setState(prev => prev.translation === translation
+                ? { translation, checks: { ...prev.checks, ...checks } }
+                : { translation, checks });
+        });
+        return () => { cancelled = true; };
+    }, [currentCitations, translation]);
+
+    return state.translation === translation ? state.checks : {};
+}
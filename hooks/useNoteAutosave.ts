@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { StudyNote } from '../types.ts';
+import { robustSafeParse } from '../utils/cache.ts';
+
+export type NoteSaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+// Unsaved edits per chapter key and note id. `null` marks a deleted note.
+type NoteDrafts = Record<string, Record<string, StudyNote | null>>;
+
+const SAVE_DELAY_MS = 1000;
+
+const draftsStorageKey = (userId: string) => `noteDrafts-${userId}`;
+
+const loadDrafts = (userId: string): NoteDrafts => {
+    const drafts = robustSafeParse<NoteDrafts>(draftsStorageKey(userId), {});
+    return drafts && typeof drafts === 'object' && !Array.isArray(drafts) ? drafts : {};
+};
+
+const storeDrafts = (userId: string, drafts: NoteDrafts) => {
+    try {
+        if (Object.keys(drafts).length === 0) localStorage.removeItem(draftsStorageKey(userId));
+        else localStorage.setItem(draftsStorageKey(userId), JSON.stringify(drafts));
+    } catch (error) {
+        console.warn('[noteAutosave] Could not store note drafts locally:', error);
+    }
+};
+
+/**
+ * Overlays unsaved edits on the saved notes. Chapters left without notes are dropped.
+ */
+export function applyNoteDrafts(notes: Record<string, StudyNote[]>, drafts: NoteDrafts): Record<string, StudyNote[]> {
+    const merged = { ...notes };
+    Object.entries(drafts).forEach(([chapterKey, chapterDrafts]) => {
+        const kept = (merged[chapterKey] || []).filter(note => !(note.id in chapterDrafts));
+        const updated = Object.values(chapterDrafts).filter((note): note is StudyNote => note !== null);
+        const chapterNotes = [...kept, ...updated];
+        if (chapterNotes.length > 0) merged[chapterKey] = chapterNotes;
+        else delete merged[chapterKey];
+    });
+    return merged;
+}
+
+// Removes the drafts that were written, keeping any edited again while the save was in flight.
+const removeSavedDrafts = (current: NoteDrafts, saved: NoteDrafts): NoteDrafts => {
+    const remaining: NoteDrafts = {};
+    Object.entries(current).forEach(([chapterKey, chapterDrafts]) => {
+        const left = Object.entries(chapterDrafts).filter(([noteId, note]) => saved[chapterKey]?.[noteId] !== note);
+        if (left.length > 0) remaining[chapterKey] = Object.fromEntries(left);
+    });
+    return remaining;
+};
+
+interface NoteAutosaveOptions {
+    userId: string;
+    // Notes as last saved to the profile.
+    savedNotes: Record<string, StudyNote[]>;
+    // Writes the complete notes map.
+    persist: (notes: Record<string, StudyNote[]>) => Promise<void>;
+}
+
+/**
+ * Keeps note edits as local drafts and saves them in one batch once typing pauses.
+ * Drafts are mirrored to localStorage so edits survive a reload or crash and are saved on the next visit.
+ */
+export function useNoteAutosave({ userId, savedNotes, persist }: NoteAutosaveOptions) {
+    const [drafts, setDrafts] = useState<NoteDrafts>(() => loadDrafts(userId));
+    const [status, setStatus] = useState<NoteSaveStatus>('idle');
+
+    const draftsRef = useRef(drafts);
+    const savedNotesRef = useRef(savedNotes);
+    const persistRef = useRef(persist);
+    const timerRef = useRef<number | undefined>(undefined);
+    const isSavingRef = useRef(false);
+    savedNotesRef.current = savedNotes;
+    persistRef.current = persist;
+
+    const updateDrafts = useCallback((next: NoteDrafts) => {
+        draftsRef.current = next;
+        storeDrafts(userId, next);
+        setDrafts(next);
+    }, [userId]);
+
+    const flush = useCallback(async () => {
+        window.clearTimeout(timerRef.current);
+        const pending = draftsRef.current;
+        if (Object.keys(pending).length === 0) return;
+        if (isSavingRef.current) {
+            // Save again once the write in flight completes.
+            timerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+            return;
+        }
+
+        isSavingRef.current = true;
+        setStatus('saving');
+        try {
+            await persistRef.current(applyNoteDrafts(savedNotesRef.current, pending));
+            updateDrafts(removeSavedDrafts(draftsRef.current, pending));
+            setStatus('saved');
+        } catch (error) {
+            console.error('[noteAutosave] Failed to save notes:', error);
+            setStatus('failed');
+        } finally {
+            isSavingRef.current = false;
+        }
+    }, [updateDrafts]);
+
+    const scheduleSave = useCallback(() => {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+    }, [flush]);
+
+    const setDraft = useCallback((chapterKey: string, noteId: string, note: StudyNote | null) => {
+        const current = draftsRef.current;
+        updateDrafts({ ...current, [chapterKey]: { ...current[chapterKey], [noteId]: note } });
+        scheduleSave();
+    }, [updateDrafts, scheduleSave]);
+
+    const saveNote = useCallback((chapterKey: string, note: StudyNote) => setDraft(chapterKey, note.id, note), [setDraft]);
+    const deleteNote = useCallback((chapterKey: string, noteId: string) => setDraft(chapterKey, noteId, null), [setDraft]);
+
+    // Drafts recovered from a previous session are saved straight away. Pending edits are
+    // flushed when the user switches away (e.g. logs out), and the drafts remain stored either way.
+    useEffect(() => {
+        const recovered = loadDrafts(userId);
+        draftsRef.current = recovered;
+        setDrafts(recovered);
+        setStatus('idle');
+        if (Object.keys(recovered).length > 0) scheduleSave();
+        return () => {
+            window.clearTimeout(timerRef.current);
+            flush();
+        };
+    }, [userId, scheduleSave, flush]);
+
+    const notes = useMemo(() => applyNoteDrafts(savedNotes, drafts), [savedNotes, drafts]);
+    const hasUnsavedChanges = Object.keys(drafts).length > 0;
+
+    return { notes, saveNote, deleteNote, status, hasUnsavedChanges, retry: flush };
+}
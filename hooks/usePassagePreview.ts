@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { Passage, TranslationKey } from '../types.ts';
+import { getPassagePreview } from '../services/bibleApiService.ts';
+
+export interface PassagePreviewState {
+    passage: Passage | null;
+    error: string | null;
+}
+
+const previewKey = (reference: string, translation: TranslationKey) => `${translation}|${reference}`;
+
+/**
+ * Loads the text of a reference for a preview. With no reference, nothing is loaded.
+ */
+export function usePassagePreview(reference: string | null, translation: TranslationKey): PassagePreviewState {
+    const [state, setState] = useState<PassagePreviewState & { key: string | null }>({ key: null, passage: null, error: null });
+    const key = reference ? previewKey(reference, translation) : null;
+
+    useEffect(() => {
+        if (!reference) return;
+        const loadedKey = previewKey(reference, translation);
+        let cancelled = false;
+        getPassagePreview(reference, translation)
+            .then(passage => {
+                if (!cancelled) setState({ key: loadedKey, passage, error: null });
+            })
+            .catch(() => {
+                if (!cancelled) setState({ key: loadedKey, passage: null, error: 'The passage could not be loaded.' });
+            });
+        return () => { cancelled = true; };
+    }, [reference, translation]);
+
+    return state.key === key ? state : { passage: null, error: null };
+}
@@ -0,0 +1,78 @@
+/**
+ * Builds the bundled translations served to the offline text provider and search
+ * (see `BundledTranslation` in services/bundledBibleProvider.ts) from the public-domain
+ * texts in the `kjv` and `world-english-bible` packages.
+ *
+ * Usage: node scripts/build-bundled-bibles.mjs [outDir]   (default: public/bibles)
+ * It runs before `dev` and `build`, so the files never need to be committed.
+ */
+import { createRequire } from 'node:module';
+import { mkdirSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+const require = createRequire(import.meta.url);
+const outDir = resolve(process.argv[2] || 'public/bibles');
+
+// The `kjv` package lists books in canonical order; only one name differs from BIBLE_BOOKS.
+const KJV_BOOK_NAMES = { "Solomon's Song": 'Song of Solomon' };
+
+// Sets `books[book][chapter - 1][verse - 1]`, appending when a verse arrives in several pieces.
+function addVerse(books, book, chapter, verse, text) {
+    const chapters = books[book] || (books[book] = []);
+    const verses = chapters[chapter - 1] || (chapters[chapter - 1] = []);
+    verses[verse - 1] = verses[verse - 1] ? `${verses[verse - 1]} ${text}` : text;
+}
+
+// Collapses whitespace and fills any gaps, so verse numbers stay positional.
+function finish(books) {
+    let verseCount = 0;
+    for (const chapters of Object.values(books)) {
+        for (let c = 0; c < chapters.length; c++) {
+            const verses = Array.from(chapters[c] || [], text => (text || '').replace(/\s+/g, ' ').trim());
+            verseCount += verses.filter(Boolean).length;
+            chapters[c] = verses;
+        }
+    }
+    return verseCount;
+}
+
+function buildKjv() {
+    const source = require('kjv/json/verses-1769.json');
+    const books = {};
+    for (const [reference, text] of Object.entries(source)) {
+        const match = reference.match(/^(.+) (\d+):(\d+)$/);
+        if (!match) continue;
+        const book = KJV_BOOK_NAMES[match[1]] || match[1];
+        // "#" marks a new paragraph and [brackets] the words printed in italics.
+        addVerse(books, book, Number(match[2]), Number(match[3]), text.replace(/^#\s*/, '').replace(/[[\]]/g, ''));
+    }
+    return { id: 'kjv', name: 'King James Version', note: 'Public Domain', books };
+}
+
+function buildWeb(bookNames) {
+    const jsonDir = join(dirname(require.resolve('world-english-bible/package.json')), 'json');
+    const files = new Set(readdirSync(jsonDir));
+    const books = {};
+    for (const book of bookNames) {
+        // Files are named after the book, lowercased without spaces ("1john.json").
+        const file = `${book.toLowerCase().replace(/\s/g, '')}.json`;
+        if (!files.has(file)) throw new Error(`world-english-bible has no ${file} for ${book}.`);
+        for (const part of require(join(jsonDir, file))) {
+            // Headings (with their footnotes) and layout markers aren't verse text.
+            if ((part.type === 'paragraph text' || part.type === 'line text') && part.chapterNumber && part.verseNumber) {
+                addVerse(books, book, part.chapterNumber, part.verseNumber, part.value);
+            }
+        }
+    }
+    return { id: 'web', name: 'World English Bible', note: 'Public Domain', books };
+}
+
+const kjv = buildKjv();
+const translations = [kjv, buildWeb(Object.keys(kjv.books))];
+
+mkdirSync(outDir, { recursive: true });
+for (const translation of translations) {
+    const verseCount = finish(translation.books);
+    writeFileSync(join(outDir, `${translation.id}.json`), JSON.stringify(translation));
+    console.log(`${translation.id}.json: ${Object.keys(translation.books).length} books, ${verseCount} verses`);
+}
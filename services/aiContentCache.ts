@@ -0,0 +1,69 @@
+import { ChapterIdentifier, TranslationKey } from '../types.ts';
+import { supabase, Json } from './supabaseClient.ts';
+import { AiContentKind } from './aiPrompts.ts';
+import { toChapterKey } from '../utils/scriptureReference.ts';
+
+/**
+ * Identifies one piece of generated content in the shared cache. Content is only reused for
+ * the same translation (it quotes the text), prompt version and model.
+ */
+export interface AiContentKey {
+    chapter: ChapterIdentifier;
+    translation: TranslationKey;
+    kind: AiContentKind;
+    promptVersion: number;
+    model: string;
+}
+
+/**
+ * Builds the id of a shared cache entry, e.g. "Genesis-1|web|deepDive|v2|gemini-2.5-flash".
+ */
+export const toAiContentId = ({ chapter, translation, kind, promptVersion, model }: AiContentKey): string =>
+    `${toChapterKey(chapter)}|${translation}|${kind}|v${promptVersion}|${model}`;
+
+// Entries only change when a moderator replaces one, so they can be kept for the session.
+const loadedContent = new Map<string, Json>();
+
+/**
+ * Looks up generated content shared by all users. Returns null if there is none, or the shared
+ * cache is unavailable (no Supabase, or offline).
+ */
+export async function getSharedAiContent(id: string): Promise<Json | null> {
+    const loaded = loadedContent.get(id);
+    if (loaded !== undefined) return loaded;
+    if (!supabase) return null;
+
+    const { data, error } = await supabase.from('ai_content').select('content').eq('id', id).maybeSingle();
+    if (error) {
+        console.warn(`[aiContentCache] Could not read shared content "${id}":`, error.message);
+        return null;
+    }
+    if (!data) return null;
+    loadedContent.set(id, data.content);
+    return data.content;
+}
+
+/**
+ * Adds generated content to the shared cache through the `share_ai_content` database function,
+ * which checks it and records who shared it. An existing entry for the same key is kept.
+ * @returns The entry's id, or null if it couldn't be stored (e.g. for guests).
+ */
+export async function putSharedAiContent(key: AiContentKey, content: Json): Promise<string | null> {
+    if (!supabase) return null;
+    const id = toAiContentId(key);
+    const { data, error } = await supabase.rpc('share_ai_content', {
+        p_chapter_key: toChapterKey(key.chapter),
+        p_translation: key.translation,
+        p_kind: key.kind,
+        p_prompt_version: key.promptVersion,
+        p_model: key.model,
+        p_content: content,
+    });
+    if (error) {
+        console.warn(`[aiContentCache] Could not share content "${id}":`, error.message);
+        return null;
+    }
+    // The entry that was already there, if any, is what other users are served.
+    loadedContent.delete(id);
+    return typeof data === 'string' ? data : id;
+}
@@ -0,0 +1,83 @@
+import { ChapterIdentifier, AllEnrichmentData, DeepDiveData, StudyPassage, AVAILABLE_TRANSLATIONS } from '../types.ts';
+import type { SectionRefinementRequest, RefinementStyle } from './aiPrompts.ts';
+
+// Canned study content for the fake AI provider. The text names the chapter it was asked
+// about, and is clearly marked as sample content, but is otherwise the same for every chapter.
+
+const SAMPLE_NOTICE = 'Sample content: no AI provider is configured, so this is placeholder text rather than a study of the chapter.';
+
+// Quotes the chapter's opening verse when its text is available, as a real study guide would.
+const quoteVerse = ({ verses }: StudyPassage, verse: number) => {
+    const text = verses.find(v => v.verse === verse)?.text;
+    return text ? ` "${text.trim()}"` : '';
+};
+
+export function getDeepDiveFixture(passage: StudyPassage): DeepDiveData {
+    const { book, chapter } = passage.identifier;
+    return {
+        summaryAndThemes: `${SAMPLE_NOTICE}\n\nA study guide for ${book} ${chapter} would summarize the chapter here and draw out its key themes.`,
+        historicalContext: `The historical and cultural background of ${book} ${chapter} would be described here.`,
+        keyVerses: [
+            { verse: `${book} ${chapter}:1`, analysis: `An analysis of the opening verse${quoteVerse(passage, 1)} and its significance would appear here.` },
+            { verse: `${book} ${chapter}:2`, analysis: 'An analysis of how this verse develops the chapter would appear here.' },
+        ],
+        reflectionQuestions: [
+            `What stands out to you most on a first reading of ${book} ${chapter}?`,
+            'How might this passage shape the way you live this week?',
+        ],
+    };
+}
+
+export function getEnrichmentsFixture(passage: StudyPassage): AllEnrichmentData {
+    const { book, chapter } = passage.identifier;
+    return {
+        crossReferences: [
+            { reference: 'Psalm 119:105', explanation: `${SAMPLE_NOTICE} Related passages for ${book} ${chapter} would be listed here.`, verse: 1 },
+        ],
+        wordStudies: [
+            {
+                originalWord: 'דָּבָר',
+                transliteration: 'dabar',
+                strongsNumber: 'H1697',
+                meaning: 'word, speech, matter',
+                contextualUse: 'A study of a key word in this chapter would appear here.',
+                verse: 1,
+                translationNote: `How the ${AVAILABLE_TRANSLATIONS[passage.translation]} renders this word, compared with other translations, would be noted here.`,
+            },
+        ],
+        historicalContext: {
+            geography: 'Places mentioned in the chapter would be described here.',
+            customs: 'Relevant customs of the time would be described here.',
+            politicalClimate: 'The political situation of the time would be described here.',
+        },
+        literaryAnalysis: {
+            structure: `The literary structure of ${book} ${chapter} would be outlined here.`,
+            themes: ['Sample theme'],
+        },
+        interpretations: [],
+    };
+}
+
+const REVISION_NOTES: Record<RefinementStyle, string> = {
+    regenerate: 'A freshly written version of this section would appear here.',
+    deeper: 'A more detailed version of this section would appear here.',
+    simpler: 'A simpler version of this section would appear here.',
+    academic: 'A more academic version of this section would appear here.',
+};
+
+/**
+ * The sample section, with a note of the requested revision wherever there's text to add it to.
+ */
+export function getSectionFixture(passage: StudyPassage, { kind, section, style }: SectionRefinementRequest): Record<string, unknown> {
+    const content: Record<string, unknown> = { ...(kind === 'deepDive' ? getDeepDiveFixture(passage) : getEnrichmentsFixture(passage)) };
+    const value = content[section];
+    const note = REVISION_NOTES[style];
+    if (typeof value === 'string') return { [section]: `${value}\n\n${note}` };
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return { [section]: [...value, note] };
+    return { [section]: value };
+}
+
+export function getChatReplyFixture(identifier: ChapterIdentifier | null, message: string): string {
+    const subject = identifier ? `${identifier.book} ${identifier.chapter}` : 'your question';
+    return `This is a sample reply about ${subject}: no AI provider is configured, so your question ("${message.trim()}") can't be answered yet. Set GEMINI_API_KEY or VITE_AI_BASE_URL in .env.local to enable the study assistant.`;
+}
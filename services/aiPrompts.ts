@@ -0,0 +1,270 @@
+import { StudyPassage, DeepDiveData, StudyNote, AVAILABLE_TRANSLATIONS } from '../types.ts';
+import { formatNoteAnchor } from '../utils/notes.ts';
+
+// Prompts and response schemas shared by every AI provider, so a chapter gets the same study
+// guide whichever model produces it. Schemas are plain JSON Schema.
+
+/**
+ * The subset of JSON Schema the response schemas use. `aiValidation` checks payloads against it.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+}
+
+export type AiContentKind = 'deepDive' | 'enrichments';
+
+/**
+ * A named prompt for one kind of generated content. The version is recorded with everything
+ * generated from it (see aiContentCache and CachedChapterContent): bump it whenever the prompt
+ * or schema changes, and content made with an older version is refreshed.
+ */
+export interface PromptTemplate {
+    name: string;
+    version: number;
+    schema: JsonSchema;
+    build(passage: StudyPassage): string;
+}
+
+const translationName = ({ translation }: StudyPassage) => `${AVAILABLE_TRANSLATIONS[translation]} (${translation.toUpperCase()})`;
+
+// Gives the model the text on the user's screen, so its quotations match the translation they read.
+function formatPassageText(passage: StudyPassage): string {
+    const { identifier: { book, chapter }, verses } = passage;
+    if (verses.length === 0) {
+        return `The user is reading the ${translationName(passage)}; quote scripture as worded in that translation.`;
+    }
+    return `The user is reading the ${translationName(passage)}. This is the text of ${book} ${chapter} in that translation:
+${verses.map(({ verse, text }) => `${verse} ${text}`).join('\n')}
+
+Whenever you quote from ${book} ${chapter}, quote this text word for word.`;
+}
+
+function buildDeepDivePrompt(passage: StudyPassage): string {
+    const { book, chapter } = passage.identifier;
+    return `Generate a comprehensive, encouraging, and insightful study guide for the Christian Bible chapter of ${book} ${chapter}. Your tone should be kind and loving. Base all analysis on scholarly, historical, and literary context, avoiding denominational bias.
+
+${formatPassageText(passage)}`;
+}
+
+export const DEEP_DIVE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summaryAndThemes: { type: 'string', description: "A summary of the chapter and its key themes." },
+        historicalContext: { type: 'string', description: "Historical and cultural context relevant to the chapter." },
+        keyVerses: {
+            type: 'array',
+            description: "Analysis of 2-3 key verses.",
+            items: {
+                type: 'object',
+                properties: {
+                    verse: { type: 'string', description: "The verbatim verse reference, e.g., 'Genesis 1:1'." },
+                    analysis: { type: 'string', description: "A fact-based analysis of the verse's significance." }
+                },
+                required: ["verse", "analysis"]
+            }
+        },
+        reflectionQuestions: {
+            type: 'array',
+            description: "Open-ended questions for personal application.",
+            items: { type: 'string' }
+        }
+    },
+    required: ["summaryAndThemes", "historicalContext", "keyVerses", "reflectionQuestions"]
+};
+
+function buildEnrichmentsPrompt(passage: StudyPassage): string {
+    const { book, chapter } = passage.identifier;
+    return `Generate a complete set of study enrichments for the Christian Bible chapter of ${book} ${chapter}. Your tone should be scholarly, encouraging, and fact-based.
+    Provide the following information in a single JSON object:
+    1.  'crossReferences': List key cross-references. For each, explain the connection and include the verse number in the chapter it relates to.
+    2.  'wordStudies': Identify 2-3 key Hebrew/Greek words. For each, provide the original word, transliteration, Strong's number, meaning, contextual use, and the primary verse number. If understanding the word hinges on how it is translated, add a 'translationNote' comparing how the ${translationName(passage)} renders it with other major translations; otherwise leave it out.
+    3.  'historicalContext': Provide historical and geographical context including locations, customs, and political situations.
+    4.  'literaryAnalysis': Analyze the literary structure and main theological themes.
+    5.  'interpretations': If there are differing scholarly interpretations for passages, summarize 2-3 views neutrally and factually, including the verse number.
+
+    If no specific data is available for a category (e.g., no major interpretive differences), return an empty array for that category where applicable (like crossReferences, wordStudies, interpretations) or an object with empty strings for its properties (like historicalContext).
+
+${formatPassageText(passage)}`;
+}
+
+export const ENRICHMENTS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        crossReferences: {
+            type: 'array',
+            description: "Key cross-references with explanations.",
+            items: {
+                type: 'object',
+                properties: {
+                    reference: { type: 'string' },
+                    explanation: { type: 'string' },
+                    verse: { type: 'integer' }
+                },
+                required: ["reference", "explanation", "verse"]
+            }
+        },
+        wordStudies: {
+            type: 'array',
+            description: "Analysis of key Hebrew/Greek words.",
+            items: {
+                type: 'object',
+                properties: {
+                    originalWord: { type: 'string' },
+                    transliteration: { type: 'string' },
+                    strongsNumber: { type: 'string' },
+                    meaning: { type: 'string' },
+                    contextualUse: { type: 'string' },
+                    verse: { type: 'integer' },
+                    translationNote: { type: 'string', description: "How translations differ in rendering the word, when the study hinges on it." }
+                },
+                required: ["originalWord", "transliteration", "strongsNumber", "meaning", "contextualUse", "verse"]
+            }
+        },
+        historicalContext: {
+            type: 'object',
+            description: "Historical, cultural, and political context.",
+            properties: {
+                geography: { type: 'string' },
+                customs: { type: 'string' },
+                politicalClimate: { type: 'string' }
+            },
+            required: ["geography", "customs", "politicalClimate"]
+        },
+        literaryAnalysis: {
+            type: 'object',
+            description: "Analysis of literary structure and themes.",
+            properties: {
+                structure: { type: 'string' },
+                themes: { type: 'array', items: { type: 'string' } }
+            },
+            required: ["structure", "themes"]
+        },
+        interpretations: {
+            type: 'array',
+            description: "Different scholarly interpretations of passages.",
+            items: {
+                type: 'object',
+                properties: {
+                    viewpoint: { type: 'string' },
+                    summary: { type: 'string' },
+                    verse: { type: 'integer' }
+                },
+                required: ["viewpoint", "summary", "verse"]
+            }
+        }
+    },
+    required: ["crossReferences", "wordStudies", "historicalContext", "literaryAnalysis", "interpretations"]
+};
+
+export const PROMPT_TEMPLATES: Record<AiContentKind, PromptTemplate> = {
+    deepDive: { name: 'chapter-deep-dive', version: 2, schema: DEEP_DIVE_SCHEMA, build: buildDeepDivePrompt },
+    enrichments: { name: 'chapter-enrichments', version: 2, schema: ENRICHMENTS_SCHEMA, build: buildEnrichmentsPrompt },
+};
+
+export type RefinementStyle = 'regenerate' | 'deeper' | 'simpler' | 'academic';
+
+/**
+ * A request for a new version of one section of a chapter's study content.
+ */
+export interface SectionRefinementRequest {
+    kind: AiContentKind;
+    // A top-level property of the kind's schema, e.g. 'historicalContext'.
+    section: string;
+    style: RefinementStyle;
+    // The section as the user sees it now.
+    current: unknown;
+}
+
+const REFINEMENT_INSTRUCTIONS: Record<RefinementStyle, string> = {
+    regenerate: 'Write this section again from scratch, taking a fresh look at the chapter.',
+    deeper: 'Go deeper than the current version: add detail, supporting evidence and verse references.',
+    simpler: 'Make it simpler than the current version: plain language and short sentences that a newcomer to the Bible can follow, without losing accuracy.',
+    academic: 'Make it more academic than the current version: precise scholarly terminology, and engagement with the relevant historical and literary scholarship.',
+};
+
+/**
+ * The schema of a response holding just one section, under its usual property name.
+ */
+export function getSectionSchema(kind: AiContentKind, section: string): JsonSchema {
+    const schema = PROMPT_TEMPLATES[kind].schema.properties?.[section];
+    if (!schema) throw new Error(`"${section}" is not a section of the ${kind} content.`);
+    return { type: 'object', properties: { [section]: schema }, required: [section] };
+}
+
+/**
+ * Builds the prompt for revising one section. It's versioned with the template the section
+ * comes from, since it reuses that template's schema.
+ */
+export function buildSectionTemplate({ kind, section, style, current }: SectionRefinementRequest): PromptTemplate {
+    const template = PROMPT_TEMPLATES[kind];
+    const schema = getSectionSchema(kind, section);
+    const description = schema.properties![section].description;
+    return {
+        name: `${template.name}-section`,
+        version: template.version,
+        schema,
+        build: passage => `You are revising one section of a study guide for the Christian Bible chapter of ${passage.identifier.book} ${passage.identifier.chapter}. The section is '${section}'${description ? ` (${description})` : ''}. This is the current version:
+${JSON.stringify({ [section]: current }, null, 2)}
+
+${REFINEMENT_INSTRUCTIONS[style]} Your tone should be kind, encouraging, and fact-based, avoiding denominational bias. Respond with a JSON object containing only the '${section}' property.
+
+${formatPassageText(passage)}`,
+    };
+}
+
+/**
+ * Repeats a request after an unusable response, telling the model what was wrong with it.
+ */
+export function withRetryFeedback(prompt: string, problems?: string[]): string {
+    if (!problems || problems.length === 0) return prompt;
+    return `${prompt}
+
+Your previous response could not be used because it did not match the required JSON format:
+${problems.map(problem => `- ${problem}`).join('\n')}
+Respond again with a single JSON object that matches the schema exactly.`;
+}
+
+/**
+ * What the study assistant is told about the chapter a conversation is about.
+ */
+export interface ChatGrounding {
+    passage: StudyPassage;
+    // The chapter's study guide, once generated.
+    deepDive?: DeepDiveData | null;
+    // The user's own notes on the chapter, only if they chose to share them.
+    notes?: StudyNote[];
+}
+
+function formatChatGrounding({ passage, deepDive, notes = [] }: ChatGrounding): string {
+    const { book, chapter } = passage.identifier;
+    const parts = [`Your current user is studying the Christian Bible chapter of ${book} ${chapter}.`];
+    if (passage.verses.length > 0) parts.push(formatPassageText(passage));
+    if (deepDive && deepDive.summaryAndThemes) {
+        parts.push(`The user has read this study guide for the chapter:
+Summary and themes: ${deepDive.summaryAndThemes}
+Historical context: ${deepDive.historicalContext}
+${deepDive.keyVerses.map(({ verse, analysis }) => `Key verse ${verse}: ${analysis}`).join('\n')}`);
+    }
+    const sharedNotes = notes.filter(note => note.content.trim());
+    if (sharedNotes.length > 0) {
+        parts.push(`The user has shared their own notes on the chapter. They are personal reflections, not authorities; refer to them where helpful:
+${sharedNotes.map(note => `- ${formatNoteAnchor(note)}: ${note.content.trim()}`).join('\n')}`);
+    }
+    return parts.join('\n\n');
+}
+
+export function buildChatSystemInstruction(grounding: ChatGrounding | null): string {
+    return `You are a kind, encouraging, and scholarly Bible study assistant. Your purpose is to help users deepen their understanding of the Bible in a way that is loving, honest, and fact-based.
+You must avoid expressing personal opinions or denominational bias.
+When answering questions, your responses should be based directly on the biblical text. ALWAYS cite the specific book, chapter, and verse(s) that support your explanation (e.g., John 3:16).
+Be aware of the nuances between different parts of the Bible, such as the Old and New Testaments.
+Keep your tone caring and your answers rooted in scripture.
+
+${grounding
+    ? formatChatGrounding(grounding)
+    : 'Your current user has a general question rather than one about a particular chapter.'}`;
+}
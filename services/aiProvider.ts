@@ -0,0 +1,75 @@
+import { ChatMessage, StudyPassage } from '../types.ts';
+import type { SectionRefinementRequest, ChatGrounding } from './aiPrompts.ts';
+import { geminiAiProvider } from './geminiAiProvider.ts';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider.ts';
+import { fakeAiProvider } from './fakeAiProvider.ts';
+
+export type AiProviderId = 'gemini' | 'openai' | 'fake';
+
+/**
+ * A conversation about one chapter, or a free-standing one. Each reply is streamed as text chunks.
+ */
+export interface AiChat {
+    sendMessageStream(message: string): AsyncGenerator<string>;
+}
+
+/**
+ * Options for one request for study content.
+ */
+export interface AiRequestOptions {
+    // What was wrong with the previous response, when asking again.
+    retryFeedback?: string[];
+    signal?: AbortSignal;
+    // Called with the response text received so far as it streams in.
+    onText?: (textSoFar: string) => void;
+    // Called with the number of tokens the request used, if the provider reports it.
+    onUsage?: (tokens: number) => void;
+}
+
+/**
+ * A source of AI-generated study content. The app never talks to a model directly;
+ * `aiService` uses the provider chosen by the build config.
+ *
+ * Study content is returned as the model's raw JSON text; `aiService` validates it against the
+ * response schema and, if it can't be used, asks again passing the problems as `retryFeedback`.
+ * Providers that can stream report the text as it arrives, so the content can be shown in parts.
+ * Errors carry the HTTP `status` where there is one, so rate limiting (429) can be retried.
+ */
+export interface AiProvider {
+    id: AiProviderId;
+    name: string;
+    // Model the content comes from; part of the shared cache key.
+    model: string;
+    // False for stand-ins whose output shouldn't be saved in the user's cached content.
+    cacheResults: boolean;
+    getChapterDeepDive(passage: StudyPassage, options?: AiRequestOptions): Promise<string>;
+    getAllChapterEnrichments(passage: StudyPassage, options?: AiRequestOptions): Promise<string>;
+    // Returns a JSON object holding just the requested section.
+    refineSection(passage: StudyPassage, request: SectionRefinementRequest, options?: AiRequestOptions): Promise<string>;
+    // `grounding` is null for free-standing conversations. `history` replays the earlier messages
+    // of a resumed conversation into the model's context. `onUsage` is called after each reply.
+    startChat(grounding: ChatGrounding | null, history: ChatMessage[], onUsage?: (tokens: number) => void): AiChat;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+    gemini: geminiAiProvider,
+    openai: openAiCompatibleProvider,
+    fake: fakeAiProvider,
+};
+
+const isProviderId = (value: unknown): value is AiProviderId => {
+    return typeof value === 'string' && value in AI_PROVIDERS;
+};
+
+/**
+ * Returns the provider chosen with `VITE_AI_PROVIDER`. Without one, Gemini is used when its
+ * API key is set, then an OpenAI-compatible server when a base URL is set, and otherwise the
+ * fixture-backed stand-in so the app still runs.
+ */
+export function getAiProvider(): AiProvider {
+    const configured = (import.meta.env?.VITE_AI_PROVIDER || '').trim().toLowerCase();
+    if (isProviderId(configured)) return AI_PROVIDERS[configured];
+    if (process.env.API_KEY) return AI_PROVIDERS.gemini;
+    if (import.meta.env?.VITE_AI_BASE_URL) return AI_PROVIDERS.openai;
+    return AI_PROVIDERS.fake;
+}
@@ -0,0 +1,275 @@
+import { ChatMessage, AllEnrichmentData, DeepDiveData, CachedChapterContent, AiContentSource, Verse, StudyPassage } from '../types.ts';
+import { getAiProvider, AiChat, AiProvider, AiRequestOptions } from './aiProvider.ts';
+import { JsonSchema, PROMPT_TEMPLATES, AiContentKind, SectionRefinementRequest, ChatGrounding, getSectionSchema } from './aiPrompts.ts';
+import { parseAiResponse, readCompleteProperties, validateAiPayload, validateDeepDive, validateEnrichments, ValidatedAiResponse } from './aiValidation.ts';
+import { getSharedAiContent, putSharedAiContent, toAiContentId } from './aiContentCache.ts';
+import { Json } from './supabaseClient.ts';
+import { beginAiRequest, recordAiTokens, waitFor } from './aiUsage.ts';
+
+export const EMPTY_DEEP_DIVE: DeepDiveData = {
+    summaryAndThemes: '',
+    historicalContext: '',
+    keyVerses: [],
+    reflectionQuestions: []
+};
+
+export const EMPTY_ENRICHMENTS: AllEnrichmentData = {
+    crossReferences: [],
+    wordStudies: [],
+    historicalContext: { geography: '', customs: '', politicalClimate: '' },
+    literaryAnalysis: { structure: '', themes: [] },
+    interpretations: []
+};
+
+const RATE_LIMIT_RETRIES = 3;
+const RATE_LIMIT_DELAY_MS = 1000;
+
+// Providers give HTTP errors a `status`; Gemini's also name the RESOURCE_EXHAUSTED code.
+const isRateLimited = (error: unknown): boolean =>
+    (error as { status?: unknown } | null)?.status === 429
+    || (error instanceof Error && /RESOURCE_EXHAUSTED|rate limit/i.test(error.message));
+
+// Exponential backoff with some jitter: about 1s, 2s, then 4s.
+const backoffDelay = (attempt: number) => RATE_LIMIT_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2);
+
+/**
+ * Makes one request to the provider, counted against the user's usage limits (see aiUsage) and
+ * retried with exponential backoff while the provider is rate limiting.
+ */
+async function requestWithinLimits(request: (options: AiRequestOptions) => Promise<string>, options: AiRequestOptions): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+        await beginAiRequest(options.signal);
+        try {
+            return await request({ ...options, onUsage: recordAiTokens });
+        } catch (error) {
+            if (attempt >= RATE_LIMIT_RETRIES || !isRateLimited(error) || options.signal?.aborted) throw error;
+            const delay = backoffDelay(attempt);
+            console.warn(`[aiService] Rate limited by the AI provider, retrying in ${Math.round(delay)} ms.`);
+            await waitFor(delay, options.signal);
+        }
+    }
+}
+
+/**
+ * Requests a JSON payload and validates it. A response that can't be fixed up is requested
+ * once more with the problems fed back to the model; if that fails too, this throws.
+ */
+async function generateValidated<T>(request: (options: AiRequestOptions) => Promise<string>, schema: JsonSchema, options: AiRequestOptions = {}): Promise<ValidatedAiResponse<T>> {
+    let result = parseAiResponse<T>(await requestWithinLimits(request, options), schema);
+    if (!result.response) {
+        console.warn('[aiService] AI response did not match the expected format, retrying:', result.errors);
+        result = parseAiResponse<T>(await requestWithinLimits(request, { ...options, retryFeedback: result.errors }), schema);
+    }
+    const { response } = result;
+    if (!response) {
+        throw new Error(`AI response did not match the expected format: ${result.errors.join(' ')}`);
+    }
+    if (response.warnings.length > 0) {
+        console.warn('[aiService] Fixed up AI response:', response.warnings);
+    }
+    return response;
+}
+
+/**
+ * Generated content along with where it is stored in the shared cache.
+ */
+export interface AiContent<T> extends ValidatedAiResponse<T> {
+    // Id of the shared cache entry holding the content, or null if it couldn't be shared.
+    contentId: string | null;
+    source: AiContentSource;
+}
+
+export interface AiContentOptions<T> {
+    // Skip the shared cache and generate fresh content. It is kept for this user only, so one
+    // person's regeneration doesn't replace what everyone else sees.
+    regenerate?: boolean;
+    // Cancels generation, e.g. when the user moves to another chapter. The result is then null.
+    signal?: AbortSignal;
+    // Called while the content streams in, each time another section is complete, with every
+    // section received so far. Sections are validated one by one; the result is the full content.
+    onPartial?: (partial: Partial<T>) => void;
+}
+
+// Turns the streamed response text into the sections completed so far.
+function reportCompleteSections<T>(kind: AiContentKind, onPartial: (partial: Partial<T>) => void): (textSoFar: string) => void {
+    let reportedCount = 0;
+    return textSoFar => {
+        const properties = readCompleteProperties(textSoFar);
+        const sections = Object.keys(properties).filter(section => PROMPT_TEMPLATES[kind].schema.properties?.[section]);
+        if (sections.length === reportedCount) return;
+        reportedCount = sections.length;
+
+        const partial: Record<string, unknown> = {};
+        sections.forEach(section => {
+            const { response } = validateAiPayload<Record<string, unknown>>({ [section]: properties[section] }, getSectionSchema(kind, section));
+            if (response) partial[section] = response.data[section];
+        });
+        onPartial(partial as Partial<T>);
+    };
+}
+
+async function loadSharedContent<T>(id: string, schema: JsonSchema): Promise<ValidatedAiResponse<T> | null> {
+    const content = await getSharedAiContent(id);
+    if (content === null) return null;
+    const { response, errors } = validateAiPayload<T>(content, schema);
+    if (!response) console.warn(`[aiService] Ignoring shared content "${id}" that doesn't match the expected format:`, errors);
+    return response;
+}
+
+/**
+ * Returns content from the shared cache if any user has already generated it for the same
+ * translation with the current prompt version and model; otherwise generates it and adds it to
+ * the cache. Content generated without the chapter's text isn't shared.
+ */
+async function getSharedOrGenerate<T>(
+    passage: StudyPassage,
+    kind: AiContentKind,
+    request: (provider: AiProvider, options: AiRequestOptions) => Promise<string>,
+    { regenerate = false, signal, onPartial }: AiContentOptions<T>
+): Promise<AiContent<T>> {
+    const provider = getAiProvider();
+    const template = PROMPT_TEMPLATES[kind];
+    const source: AiContentSource = { promptVersion: template.version, model: provider.model };
+    const key = { chapter: passage.identifier, translation: passage.translation, kind, ...source };
+    const shareable = provider.cacheResults && !regenerate && passage.verses.length > 0;
+    if (shareable) {
+        const contentId = toAiContentId(key);
+        const shared = await loadSharedContent<T>(contentId, template.schema);
+        if (shared) return { ...shared, contentId, source };
+    }
+
+    const response = await generateValidated<T>(requestOptions => request(provider, requestOptions), template.schema, {
+        signal,
+        onText: onPartial && reportCompleteSections(kind, onPartial),
+    });
+    const contentId = shareable ? await putSharedAiContent(key, response.data as unknown as Json) : null;
+    return { ...response, contentId, source };
+}
+
+export async function getChapterDeepDive(passage: StudyPassage, options: AiContentOptions<DeepDiveData> = {}): Promise<AiContent<DeepDiveData> | null> {
+    try {
+        return await getSharedOrGenerate<DeepDiveData>(passage, 'deepDive',
+            (provider, requestOptions) => provider.getChapterDeepDive(passage, requestOptions), options);
+    } catch (error) {
+        if (!options.signal?.aborted) console.error("Error fetching deep dive:", error);
+        return null;
+    }
+}
+
+export async function getAllChapterEnrichments(passage: StudyPassage, options: AiContentOptions<AllEnrichmentData> = {}): Promise<AiContent<AllEnrichmentData> | null> {
+    try {
+        return await getSharedOrGenerate<AllEnrichmentData>(passage, 'enrichments',
+            (provider, requestOptions) => provider.getAllChapterEnrichments(passage, requestOptions), options);
+    } catch (error) {
+        if (!options.signal?.aborted) console.error("Error fetching all chapter enrichments:", error);
+        return null;
+    }
+}
+
+/**
+ * Asks for a new version of one section of a chapter's study content, e.g. a simpler historical
+ * context. Nothing is stored; the caller decides whether to keep it.
+ */
+export async function refineStudySection(passage: StudyPassage, request: SectionRefinementRequest): Promise<ValidatedAiResponse<unknown> | null> {
+    try {
+        const provider = getAiProvider();
+        const { data, warnings } = await generateValidated<Record<string, unknown>>(
+            requestOptions => provider.refineSection(passage, request, requestOptions),
+            getSectionSchema(request.kind, request.section)
+        );
+        return { data: data[request.section], warnings };
+    } catch (error) {
+        console.error(`Error refining the ${request.section} section:`, error);
+        return null;
+    }
+}
+
+/**
+ * Replaces one kind of content in a cache entry with the user's own edited copy. It's stored
+ * inline, since it's no longer what the shared cache holds.
+ */
+export function withEditedContent(cached: CachedChapterContent, kind: AiContentKind, data: DeepDiveData | AllEnrichmentData): CachedChapterContent {
+    if (kind === 'deepDive') {
+        const { deepDiveId, ...rest } = cached;
+        return { ...rest, deepDiveData: data as DeepDiveData };
+    }
+    const { enrichmentsId, ...rest } = cached;
+    return { ...rest, allEnrichmentData: data as AllEnrichmentData };
+}
+
+/**
+ * Builds the cache entry for a chapter. Content in the shared cache is stored by reference.
+ */
+export function toCachedChapterContent(verses: Verse[], deepDive: AiContent<DeepDiveData>, enrichments: AiContent<AllEnrichmentData>): CachedChapterContent {
+    return {
+        verses,
+        ...(deepDive.contentId ? { deepDiveId: deepDive.contentId } : { deepDiveData: deepDive.data }),
+        ...(enrichments.contentId ? { enrichmentsId: enrichments.contentId } : { allEnrichmentData: enrichments.data }),
+        deepDiveSource: deepDive.source,
+        enrichmentsSource: enrichments.source,
+    };
+}
+
+/**
+ * Loads the AI content a user's cached chapter refers to. Content that wasn't shared is stored
+ * inline. Returns null if either part is missing or no longer valid, so it gets regenerated.
+ */
+export async function loadCachedChapterContent(cached: CachedChapterContent): Promise<{ deepDive: DeepDiveData; enrichments: AllEnrichmentData } | null> {
+    const [deepDive, enrichments] = await Promise.all([
+        cached.deepDiveId
+            ? loadSharedContent<DeepDiveData>(cached.deepDiveId, PROMPT_TEMPLATES.deepDive.schema)
+            : validateDeepDive(cached.deepDiveData).response,
+        cached.enrichmentsId
+            ? loadSharedContent<AllEnrichmentData>(cached.enrichmentsId, PROMPT_TEMPLATES.enrichments.schema)
+            : validateEnrichments(cached.allEnrichmentData).response,
+    ]);
+    return deepDive && enrichments ? { deepDive: deepDive.data, enrichments: enrichments.data } : null;
+}
+
+/**
+ * True if cached content was generated with an older prompt version than the current templates
+ * (or before versions were recorded), and should be refreshed. A different model alone doesn't
+ * make content stale.
+ */
+export function isCachedContentOutdated(cached: CachedChapterContent): boolean {
+    return (cached.deepDiveSource?.promptVersion ?? 0) < PROMPT_TEMPLATES.deepDive.version
+        || (cached.enrichmentsSource?.promptVersion ?? 0) < PROMPT_TEMPLATES.enrichments.version;
+}
+
+/**
+ * Whether generated content may be saved in the user's cache. Sample content isn't, so real
+ * content replaces it once a provider is configured.
+ */
+export function canCacheAiContent(): boolean {
+    return getAiProvider().cacheResults;
+}
+
+/**
+ * Starts a conversation with the study assistant, grounded in a chapter or (with none)
+ * free-standing. A resumed thread passes its earlier messages, so the model knows what was
+ * already said. Each message counts against the user's usage limits, and is sent again with
+ * backoff if the provider is rate limiting before the reply starts.
+ */
+export function startChat(grounding: ChatGrounding | null, history: ChatMessage[] = []): AiChat {
+    const chat = getAiProvider().startChat(grounding, history, recordAiTokens);
+    return {
+        async *sendMessageStream(message: string) {
+            for (let attempt = 0; ; attempt++) {
+                await beginAiRequest();
+                let hasReplied = false;
+                try {
+                    for await (const chunk of chat.sendMessageStream(message)) {
+                        hasReplied = true;
+                        yield chunk;
+                    }
+                    return;
+                } catch (error) {
+                    if (hasReplied || attempt >= RATE_LIMIT_RETRIES || !isRateLimited(error)) throw error;
+                    const delay = backoffDelay(attempt);
+                    console.warn(`[aiService] Rate limited by the AI provider, retrying in ${Math.round(delay)} ms.`);
+                    await waitFor(delay);
+                }
+            }
+        },
+    };
+}
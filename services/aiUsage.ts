@@ -0,0 +1,200 @@
+/**
+ * Client-side tracking of how much each user asks of the AI provider, with per-user limits so
+ * one person can't run up the shared quota (e.g. by clicking through dozens of chapters).
+ * Usage and limits are kept per user on this device.
+ */
+
+export interface AiUsageDay {
+    // Local date, e.g. "2026-10-19".
+    date: string;
+    requests: number;
+    // Only counted when the provider reports it.
+    tokens: number;
+}
+
+export interface AiUsageLimits {
+    dailyRequests: number;
+    dailyTokens: number;
+    // Requests beyond this wait for the minute to pass rather than failing.
+    requestsPerMinute: number;
+}
+
+// 'warning' once either daily limit is close, 'limited' once one is reached.
+export type AiUsageStatus = 'ok' | 'warning' | 'limited';
+
+export interface AiUsageSummary {
+    today: AiUsageDay;
+    // The last HISTORY_DAYS days that had any usage, most recent first.
+    recent: AiUsageDay[];
+    limits: AiUsageLimits;
+    status: AiUsageStatus;
+}
+
+interface StoredAiUsage {
+    days: AiUsageDay[];
+    limits?: Partial<AiUsageLimits>;
+}
+
+export const DEFAULT_AI_USAGE_LIMITS: AiUsageLimits = {
+    dailyRequests: 150,
+    dailyTokens: 750000,
+    requestsPerMinute: 12,
+};
+
+const WARNING_SHARE = 0.8;
+const HISTORY_DAYS = 7;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Thrown instead of making a request once the user has reached a daily limit.
+ */
+export class AiUsageLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AiUsageLimitError';
+    }
+}
+
+// Requests are counted for the signed-in user, set by the study view.
+let currentUserId = 'guest';
+// Start times of this session's requests in the last minute.
+let recentRequestTimes: number[] = [];
+const listeners = new Set<() => void>();
+
+const storageKey = (userId: string) => `aiUsage-${userId}`;
+
+const toLocalDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isUsageDay = (value: unknown): value is AiUsageDay => {
+    return typeof value === 'object' && value !== null &&
+        'date' in value && typeof value.date === 'string' &&
+        'requests' in value && isCount(value.requests) &&
+        'tokens' in value && isCount(value.tokens);
+};
+
+function readStoredUsage(userId: string): StoredAiUsage {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+        return {
+            days: Array.isArray(parsed?.days) ? parsed.days.filter(isUsageDay) : [],
+            limits: parsed?.limits && typeof parsed.limits === 'object' ? parsed.limits : undefined,
+        };
+    } catch {
+        return { days: [] };
+    }
+}
+
+function writeStoredUsage(userId: string, stored: StoredAiUsage): void {
+    try {
+        localStorage.setItem(storageKey(userId), JSON.stringify(stored));
+    } catch (error) {
+        console.warn('[aiUsage] Could not save AI usage:', error);
+    }
+    listeners.forEach(listener => listener());
+}
+
+const readLimits = (stored: StoredAiUsage): AiUsageLimits => ({
+    dailyRequests: isPositiveNumber(stored.limits?.dailyRequests) ? stored.limits!.dailyRequests : DEFAULT_AI_USAGE_LIMITS.dailyRequests,
+    dailyTokens: isPositiveNumber(stored.limits?.dailyTokens) ? stored.limits!.dailyTokens : DEFAULT_AI_USAGE_LIMITS.dailyTokens,
+    requestsPerMinute: isPositiveNumber(stored.limits?.requestsPerMinute) ? stored.limits!.requestsPerMinute : DEFAULT_AI_USAGE_LIMITS.requestsPerMinute,
+});
+
+const getStatus = (today: AiUsageDay, limits: AiUsageLimits): AiUsageStatus => {
+    const share = Math.max(today.requests / limits.dailyRequests, today.tokens / limits.dailyTokens);
+    return share >= 1 ? 'limited' : share >= WARNING_SHARE ? 'warning' : 'ok';
+};
+
+/**
+ * Today's usage, recent history and limits for a user (by default the current one).
+ */
+export function getAiUsage(userId: string = currentUserId): AiUsageSummary {
+    const stored = readStoredUsage(userId);
+    const date = toLocalDate(new Date());
+    const today = stored.days.find(day => day.date === date) ?? { date, requests: 0, tokens: 0 };
+    const limits = readLimits(stored);
+    const recent = [...stored.days].sort((a, b) => b.date.localeCompare(a.date)).slice(0, HISTORY_DAYS);
+    return { today, recent, limits, status: getStatus(today, limits) };
+}
+
+function updateToday(update: (today: AiUsageDay) => AiUsageDay): void {
+    const stored = readStoredUsage(currentUserId);
+    const { today } = getAiUsage(currentUserId);
+    const days = [update(today), ...stored.days.filter(day => day.date !== today.date)]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, HISTORY_DAYS);
+    writeStoredUsage(currentUserId, { ...stored, days });
+}
+
+/**
+ * Sets whose usage AI requests count towards.
+ */
+export function setAiUsageUser(userId: string): void {
+    if (userId === currentUserId) return;
+    currentUserId = userId;
+    recentRequestTimes = [];
+    listeners.forEach(listener => listener());
+}
+
+export function setAiUsageLimits(userId: string, limits: Partial<AiUsageLimits>): void {
+    const stored = readStoredUsage(userId);
+    writeStoredUsage(userId, { ...stored, limits: { ...stored.limits, ...limits } });
+}
+
+/**
+ * Calls the listener whenever usage or limits change. Returns a function that unsubscribes.
+ */
+export function subscribeToAiUsage(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+/**
+ * Resolves after the delay; rejects early if the signal aborts.
+ */
+export const waitFor = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Call before each request to the AI provider. Throws an `AiUsageLimitError` once the user has
+ * reached a daily limit, waits while they're over the per-minute limit, then counts the request.
+ */
+export async function beginAiRequest(signal?: AbortSignal): Promise<void> {
+    const { today, limits } = getAiUsage();
+    if (today.requests >= limits.dailyRequests || today.tokens >= limits.dailyTokens) {
+        throw new AiUsageLimitError("You've reached today's limit for AI study content. It resets at midnight, or you can raise it under Preferences.");
+    }
+    for (;;) {
+        const now = Date.now();
+        recentRequestTimes = recentRequestTimes.filter(time => time > now - MINUTE_MS);
+        if (recentRequestTimes.length < limits.requestsPerMinute) break;
+        await waitFor(recentRequestTimes[0] + MINUTE_MS - now, signal);
+    }
+    recentRequestTimes.push(Date.now());
+    updateToday(today => ({ ...today, requests: today.requests + 1 }));
+}
+
+/**
+ * Adds the tokens a request used, as reported by the provider.
+ */
+export function recordAiTokens(tokens: number): void {
+    if (!isPositiveNumber(tokens)) return;
+    updateToday(today => ({ ...today, tokens: today.tokens + tokens }));
+}
@@ -0,0 +1,163 @@
+import { AllEnrichmentData, DeepDiveData } from '../types.ts';
+import { JsonSchema, DEEP_DIVE_SCHEMA, ENRICHMENTS_SCHEMA } from './aiPrompts.ts';
+
+/**
+ * An AI payload that matches its schema, with a note of everything that had to be fixed up.
+ */
+export interface ValidatedAiResponse<T> {
+    data: T;
+    warnings: string[];
+}
+
+// `response` is null when the payload can't be used; `errors` then says why.
+export interface AiValidationResult<T> {
+    response: ValidatedAiResponse<T> | null;
+    errors: string[];
+}
+
+const INVALID = Symbol('invalid');
+
+interface ValidationContext {
+    warnings: string[];
+    errors: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+    Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+
+// Checks a value against a schema, fixing what can safely be fixed. Missing or null strings,
+// arrays and objects default to empty ones; missing verse numbers can't be made up. Inside
+// array items nothing is defaulted: an item that doesn't match is dropped instead.
+function coerce(value: unknown, schema: JsonSchema, path: string, ctx: ValidationContext, inItem: boolean): unknown {
+    const missing = value === undefined || value === null;
+    if (missing && !inItem && schema.type !== 'integer') {
+        ctx.warnings.push(`${path} was missing; using an empty value.`);
+        value = schema.type === 'string' ? '' : schema.type === 'array' ? [] : {};
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value === 'string') return value;
+            if (typeof value === 'number' || typeof value === 'boolean') {
+                ctx.warnings.push(`${path} was ${describe(value)}; converted to text.`);
+                return String(value);
+            }
+            break;
+        case 'integer':
+            if (typeof value === 'number' && Number.isFinite(value)) {
+                if (Number.isInteger(value)) return value;
+                ctx.warnings.push(`${path} was not a whole number; rounded.`);
+                return Math.round(value);
+            }
+            // Verse numbers often come back as text such as "16", "v. 16" or "16-18".
+            if (typeof value === 'string') {
+                const match = value.match(/^\s*(?:v{1,2}\.?\s*)?(\d+)/i);
+                if (match) {
+                    ctx.warnings.push(`${path} was text ("${value}"); read as ${match[1]}.`);
+                    return Number(match[1]);
+                }
+            }
+            break;
+        case 'array': {
+            if (!Array.isArray(value)) break;
+            const items: unknown[] = [];
+            value.forEach((item, index) => {
+                const itemErrors: string[] = [];
+                const coerced = coerce(item, schema.items!, `${path}[${index}]`, { warnings: ctx.warnings, errors: itemErrors }, true);
+                if (coerced === INVALID) ctx.warnings.push(`Dropped ${path}[${index}]: ${itemErrors.join(' ')}`);
+                else items.push(coerced);
+            });
+            return items;
+        }
+        case 'object': {
+            if (!isPlainObject(value)) break;
+            const result: Record<string, unknown> = {};
+            const required = schema.required || [];
+            let valid = true;
+            Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+                const propertyValue = value[key];
+                if ((propertyValue === undefined || propertyValue === null) && !required.includes(key)) return;
+                const coerced = coerce(propertyValue, propertySchema, path ? `${path}.${key}` : key, ctx, inItem);
+                if (coerced === INVALID) valid = false;
+                else result[key] = coerced;
+            });
+            return valid ? result : INVALID;
+        }
+    }
+
+    ctx.errors.push(missing ? `${path} is missing.` : `${path} should be ${schema.type === 'integer' ? 'a whole number' : `a ${schema.type}`} but was ${describe(value)}.`);
+    return INVALID;
+}
+
+// Models sometimes wrap JSON in a Markdown code fence despite being asked for JSON only.
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+/**
+ * Reads the top-level properties of a JSON object that is still streaming in. Only properties
+ * whose value is complete (followed by another property or the closing brace) are returned.
+ */
+export function readCompleteProperties(text: string): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    const start = text.indexOf('{');
+    if (start === -1) return properties;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let propertyStart = start + 1;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') depth++;
+        else if (char === '}' || char === ']') depth--;
+        if (depth === 1 && char === ',' || depth === 0 && char === '}') {
+            try {
+                Object.assign(properties, JSON.parse(`{${text.slice(propertyStart, i)}}`));
+            } catch (error) {
+                // Not a complete property after all; the final response is validated anyway.
+            }
+            propertyStart = i + 1;
+            if (depth === 0) break;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Validates a parsed payload against a response schema.
+ */
+export function validateAiPayload<T>(payload: unknown, schema: JsonSchema): AiValidationResult<T> {
+    const ctx: ValidationContext = { warnings: [], errors: [] };
+    if (!isPlainObject(payload)) {
+        return { response: null, errors: [`The response should be a JSON object but was ${describe(payload)}.`] };
+    }
+    const data = coerce(payload, schema, '', ctx, false);
+    if (data === INVALID || ctx.errors.length > 0) return { response: null, errors: ctx.errors };
+    return { response: { data: data as T, warnings: ctx.warnings }, errors: [] };
+}
+
+/**
+ * Parses raw model output and validates it against a response schema.
+ */
+export function parseAiResponse<T>(text: string, schema: JsonSchema): AiValidationResult<T> {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(stripCodeFence(text));
+    } catch (error) {
+        return { response: null, errors: [`The response was not valid JSON (${error instanceof Error ? error.message : 'parse error'}).`] };
+    }
+    return validateAiPayload<T>(payload, schema);
+}
+
+export const validateDeepDive = (payload: unknown) => validateAiPayload<DeepDiveData>(payload, DEEP_DIVE_SCHEMA);
+
+export const validateEnrichments = (payload: unknown) => validateAiPayload<AllEnrichmentData>(payload, ENRICHMENTS_SCHEMA);
@@ -1,65 +1,84 @@
+
 import { ChapterIdentifier, TranslationKey, Passage, Verse } from '../types.ts';
+import { resolveProviders, BibleTextProvider } from './bibleTextProvider.ts';
+import { parseReference } from '../utils/scriptureReference.ts';
+import { BibleTextError, isAbortError } from './bibleFetch.ts';
 
-const API_BASE = 'https://bible-api.com';
+/**
+ * Runs a request against each provider able to serve the translation, preferred provider first,
+ * and returns the first success. If every provider fails, the preferred provider's error is thrown
+ * since it is the one the user chose. A cancelled request is not retried elsewhere.
+ */
+async function withProviders<T>(translation: string, request: (provider: BibleTextProvider) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const providers = resolveProviders(translation);
+    if (providers.length === 0) {
+        throw new BibleTextError(`No text source is configured for ${translation.toUpperCase()}.`);
+    }
+    let firstError: unknown = null;
+    for (const provider of providers) {
+        try {
+            return await request(provider);
+        } catch (error) {
+            if (isAbortError(error) || signal?.aborted) throw error;
+            console.warn(`[bibleApiService] ${provider.name} failed for ${translation.toUpperCase()}:`, error);
+            if (firstError === null) firstError = error;
+        }
+    }
+    throw firstError;
+}
 
 /**
- * Fetches a Bible passage from the public bible-api.com.
+ * Fetches a Bible passage from the configured text provider for the translation.
  * @param passage - The scripture reference, e.g., "John 3:16" or "Genesis 1:1-5".
  * @param translation - The Bible translation to use (e.g., 'kjv', 'web').
- * @returns A promise that resolves to the passage data or throws an error.
+ * @param signal - Cancels the request, e.g. when the user navigates away; it then rejects with an AbortError.
+ * @returns A promise that resolves to the passage data or throws a `BibleTextError` (`NotFoundError`,
+ * `RateLimitedError` or `NetworkError` where the cause is known).
  */
-export async function getPassage(passage: string, translation: string): Promise<Passage> {
+export async function getPassage(passage: string, translation: string, signal?: AbortSignal): Promise<Passage> {
     try {
-        // Sanitize passage for URL: replace spaces with '+'
-        const formattedPassage = passage.trim().replace(/\s/g, '+');
-        const url = `${API_BASE}/${formattedPassage}?translation=${translation}`;
-        
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            let errorMessage = `API request failed with status ${response.status}`;
-            try {
-                const errorData = await response.json();
-                errorMessage = errorData.error || errorMessage;
-            } catch (e) {
-                // Ignore if response body is not JSON
-            }
-             if (response.status === 404) {
-                throw new Error(`Passage not found in ${translation.toUpperCase()}. Please check the reference.`);
-            }
-            throw new Error(errorMessage);
-        }
-
-        const data: Passage = await response.json();
-        return data;
-
+        // Malformed or out-of-range references fail here instead of reaching a text source.
+        const reference = parseReference(passage);
+        return await withProviders(translation, provider => provider.getPassage(reference, translation, signal), signal);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error(`Error fetching passage [${passage}] for translation [${translation}]:`, error);
         // Re-throw the caught error to be handled by the component
         throw error;
     }
 }
 
+// Previewed passages are kept for the session; failures are dropped so they're retried.
+const previewedPassages = new Map<string, Promise<Passage>>();
+
+/**
+ * Like `getPassage`, but each passage is fetched once per session, since the same reference is
+ * previewed over and over (e.g. each time a link is hovered).
+ */
+export function getPassagePreview(passage: string, translation: TranslationKey): Promise<Passage> {
+    const key = `${translation}|${passage}`;
+    let pending = previewedPassages.get(key);
+    if (!pending) {
+        pending = getPassage(passage, translation);
+        pending.catch(() => previewedPassages.delete(key));
+        previewedPassages.set(key, pending);
+    }
+    return pending;
+}
+
 /**
- * Fetches the full text of a Bible chapter from bible-api.com and returns a structured array of verses.
+ * Fetches the full text of a Bible chapter and returns a structured array of verses.
  * @param identifier - The chapter to fetch.
  * @param translation - The user's preferred Bible translation.
- * @returns A promise that resolves to an array of Verse objects.
+ * @param signal - Cancels the request; it then rejects with an AbortError.
+ * @returns A promise that resolves to an array of Verse objects, or throws as `getPassage` does.
  */
-export async function getChapterTextFromApi(identifier: ChapterIdentifier, translation: TranslationKey): Promise<Verse[]> {
-    const passageRef = `${identifier.book} ${identifier.chapter}`;
-
+export async function getChapterTextFromApi(identifier: ChapterIdentifier, translation: TranslationKey, signal?: AbortSignal): Promise<Verse[]> {
     try {
-        const passageData = await getPassage(passageRef, translation);
-         // ROBUST GUARD: Use Array.isArray to prevent crashes if the API returns a malformed object
-         // where `verses` is not an array. This is the definitive fix for the persistent crash.
-         if (!Array.isArray(passageData.verses) || passageData.verses.length === 0) {
-            throw new Error(passageData.text || 'Passage not found or API returned empty/malformed verses.');
-        }
-        // Clean up verse text by removing extraneous newlines that some translations might have.
-        return passageData.verses.map(v => ({...v, text: v.text.replace(/\n/g, ' ').trim()}));
+        return await withProviders(translation, provider => provider.getChapter(identifier, translation, signal), signal);
     } catch (error) {
-        console.error(`Error fetching chapter text for ${passageRef} (${translation.toUpperCase()}):`, error);
+        if (isAbortError(error)) throw error;
+        console.error(`Error fetching chapter text for ${identifier.book} ${identifier.chapter} (${translation.toUpperCase()}):`, error);
         throw error;
     }
-}
\ No newline at end of file
+}
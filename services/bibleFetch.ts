@@ -0,0 +1,181 @@
+/**
+ * Shared network layer for Bible text requests: timeouts, bounded retries with jitter for
+ * transient failures, one request for identical calls in flight, and cancellation.
+ * Failures are reported as the typed errors below rather than messages to parse.
+ */
+
+export class BibleTextError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BibleTextError';
+    }
+}
+
+// The passage or translation doesn't exist at the source.
+export class NotFoundError extends BibleTextError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NotFoundError';
+    }
+}
+
+// The source is refusing requests for now (HTTP 429), even after retrying.
+export class RateLimitedError extends BibleTextError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RateLimitedError';
+    }
+}
+
+// The source couldn't be reached, timed out, or failed on its side (HTTP 5xx).
+export class NetworkError extends BibleTextError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+export interface BibleFetchOptions {
+    // Cancels the request for this caller; the promise rejects with an AbortError.
+    signal?: AbortSignal;
+    // What a 404 means for this request, shown to the user.
+    notFoundMessage?: string;
+}
+
+const TIMEOUT_MS = 10000;
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+/**
+ * True for the error a cancelled request rejects with.
+ */
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together.
+const retryDelay = (attempt: number) => Math.random() * RETRY_DELAY_MS * 2 ** (attempt + 1);
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+});
+
+async function readErrorMessage(response: Response): Promise<string | null> {
+    try {
+        const errorData = await response.json();
+        return typeof errorData?.error === 'string' ? errorData.error : null;
+    } catch {
+        // The body isn't JSON.
+        return null;
+    }
+}
+
+// One attempt, given up after TIMEOUT_MS.
+async function fetchOnce(url: string, signal: AbortSignal, notFoundMessage?: string): Promise<unknown> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (response.status === 404) {
+            throw new NotFoundError(notFoundMessage || (await readErrorMessage(response)) || 'Not found.');
+        }
+        if (response.status === 429) {
+            throw new RateLimitedError('The Bible text service is receiving too many requests. Please wait a moment and try again.');
+        }
+        if (response.status >= 500) {
+            throw new NetworkError(`The Bible text service is having problems (status ${response.status}). Please try again later.`);
+        }
+        if (!response.ok) {
+            throw new BibleTextError((await readErrorMessage(response)) || `The request failed with status ${response.status}.`);
+        }
+        return await response.json();
+    } catch (error) {
+        if (signal.aborted) throw abortError();
+        if (timedOut) throw new NetworkError('The Bible text service took too long to respond.');
+        if (error instanceof BibleTextError) throw error;
+        // fetch rejects with a TypeError when offline or the server can't be reached.
+        throw new NetworkError("Couldn't reach the Bible text service. Please check your connection.");
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', abort);
+    }
+}
+
+async function fetchWithRetries(url: string, signal: AbortSignal, notFoundMessage?: string): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(url, signal, notFoundMessage);
+        } catch (error) {
+            const isTransient = error instanceof RateLimitedError || error instanceof NetworkError;
+            if (!isTransient || attempt >= MAX_RETRIES || signal.aborted) throw error;
+            await wait(retryDelay(attempt), signal);
+        }
+    }
+}
+
+interface InFlightRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    // Callers still waiting; the request is cancelled once none are.
+    waiting: number;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+/**
+ * GETs JSON from a Bible text source. Identical requests made while one is in flight share it,
+ * and each caller can cancel its own wait; the request itself is cancelled once every caller has.
+ */
+export function fetchBibleJson<T>(url: string, { signal, notFoundMessage }: BibleFetchOptions = {}): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    let request = inFlight.get(url);
+    if (!request) {
+        const controller = new AbortController();
+        const created: InFlightRequest = { promise: fetchWithRetries(url, controller.signal, notFoundMessage), controller, waiting: 0 };
+        const release = () => {
+            if (inFlight.get(url) === created) inFlight.delete(url);
+        };
+        created.promise.then(release, release);
+        inFlight.set(url, created);
+        request = created;
+    }
+    const shared = request;
+    shared.waiting++;
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            if (--shared.waiting === 0) {
+                shared.controller.abort();
+                if (inFlight.get(url) === shared) inFlight.delete(url);
+            }
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        shared.promise.then(
+            value => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(value as T);
+            },
+            error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
@@ -0,0 +1,86 @@
+import { ChapterIdentifier, ParsedReference, Passage, TranslationKey, Verse, AVAILABLE_TRANSLATIONS } from '../types.ts';
+import { httpBibleProvider } from './httpBibleProvider.ts';
+import { bundledBibleProvider } from './bundledBibleProvider.ts';
+
+export type BibleProviderId = 'http' | 'bundled';
+
+/**
+ * A source of Bible text. The app never talks to a text source directly;
+ * `bibleApiService` picks a provider per translation and falls back to the
+ * next one that supports it if the preferred provider fails.
+ *
+ * Failures are reported as `BibleTextError`s (see bibleFetch), and a cancelled `signal` rejects
+ * with an AbortError. Providers reading local data may ignore the signal.
+ */
+export interface BibleTextProvider {
+    id: BibleProviderId;
+    name: string;
+    supportsTranslation(translation: string): boolean;
+    getPassage(reference: ParsedReference, translation: string, signal?: AbortSignal): Promise<Passage>;
+    getChapter(identifier: ChapterIdentifier, translation: string, signal?: AbortSignal): Promise<Verse[]>;
+}
+
+export const BIBLE_TEXT_PROVIDERS: Record<BibleProviderId, BibleTextProvider> = {
+    http: httpBibleProvider,
+    bundled: bundledBibleProvider,
+};
+
+const PREFERENCES_STORAGE_KEY = 'bibleProviderPreferences';
+
+const isProviderId = (value: unknown): value is BibleProviderId => {
+    return typeof value === 'string' && value in BIBLE_TEXT_PROVIDERS;
+};
+
+/**
+ * Parses the build-time provider map from `VITE_BIBLE_PROVIDERS`, e.g. "web:bundled,kjv:http".
+ * Unknown translations or providers are ignored.
+ */
+const getBuildConfigPreferences = (): Partial<Record<TranslationKey, BibleProviderId>> => {
+    const raw = import.meta.env?.VITE_BIBLE_PROVIDERS || '';
+    const preferences: Partial<Record<TranslationKey, BibleProviderId>> = {};
+    raw.split(',').forEach(entry => {
+        const [translation, providerId] = entry.split(':').map(part => part.trim().toLowerCase());
+        if (translation in AVAILABLE_TRANSLATIONS && isProviderId(providerId)) {
+            preferences[translation as TranslationKey] = providerId;
+        }
+    });
+    return preferences;
+};
+
+const getUserPreferences = (): Partial<Record<TranslationKey, BibleProviderId>> => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) || '{}');
+        return (parsed && typeof parsed === 'object') ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Returns the provider that should serve a translation. A choice the user made in
+ * the sidebar wins over the build config; without either, the online source is used.
+ */
+export function getProviderPreference(translation: string): BibleProviderId {
+    const userChoice = getUserPreferences()[translation as TranslationKey];
+    if (isProviderId(userChoice)) return userChoice;
+    const buildChoice = getBuildConfigPreferences()[translation as TranslationKey];
+    if (isProviderId(buildChoice)) return buildChoice;
+    return 'http';
+}
+
+/**
+ * Persists the user's provider choice for a translation on this device.
+ */
+export function setProviderPreference(translation: TranslationKey, providerId: BibleProviderId): void {
+    const preferences = { ...getUserPreferences(), [translation]: providerId };
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+/**
+ * Lists the providers able to serve a translation, preferred provider first.
+ */
+export function resolveProviders(translation: string): BibleTextProvider[] {
+    const preferred = BIBLE_TEXT_PROVIDERS[getProviderPreference(translation)];
+    const others = Object.values(BIBLE_TEXT_PROVIDERS).filter(p => p !== preferred);
+    return [preferred, ...others].filter(p => p.supportsTranslation(translation));
+}
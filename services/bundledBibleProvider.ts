@@ -0,0 +1,111 @@
+import { ChapterIdentifier, ParsedReference, Passage, Verse, BookName, Book } from '../types.ts';
+import { BIBLE_BOOKS } from '../constants.ts';
+import type { BibleTextProvider } from './bibleTextProvider.ts';
+import { NetworkError, NotFoundError } from './bibleFetch.ts';
+
+/**
+ * On-disk format of a bundled translation, served as `<VITE_BUNDLED_BIBLES_URL>/<id>.json`.
+ * Verse text is stored positionally to keep the files compact:
+ * `books['John'][2][15]` is John 3:16.
+ */
+export interface BundledTranslation {
+    id: string;
+    name: string;
+    note?: string;
+    books: Partial<Record<BookName, string[][]>>;
+}
+
+// Public-domain translations we ship as static files.
+export const BUNDLED_TRANSLATIONS = ['web', 'kjv'];
+
+const BUNDLED_BIBLES_URL = (import.meta.env?.VITE_BUNDLED_BIBLES_URL || '/bibles').replace(/\/$/, '');
+
+const loadedTranslations = new Map<string, Promise<BundledTranslation>>();
+
+/**
+ * Loads (once per session) the bundled file for a translation.
+ * @throws `NotFoundError` if the file isn't deployed, `NetworkError` if it couldn't be loaded.
+ */
+export function loadBundledTranslation(translation: string): Promise<BundledTranslation> {
+    const key = translation.toLowerCase();
+    let pending = loadedTranslations.get(key);
+    if (!pending) {
+        const notInstalled = () => new NotFoundError(`Offline ${key.toUpperCase()} text is not installed. Run \`npm run bibles\` to generate it.`);
+        pending = fetch(`${BUNDLED_BIBLES_URL}/${key}.json`).then(async response => {
+            if (response.status === 404) throw notInstalled();
+            if (!response.ok) {
+                throw new NetworkError(`Offline ${key.toUpperCase()} text could not be loaded (status ${response.status}).`);
+            }
+            // A dev server or SPA host answers a missing file with the app's HTML page.
+            const data = await response.json().catch(() => null) as BundledTranslation | null;
+            if (!data || typeof data.books !== 'object' || data.books === null) throw notInstalled();
+            return data;
+        }, () => {
+            throw new NetworkError(`Offline ${key.toUpperCase()} text could not be loaded. Please check your connection.`);
+        });
+        // Drop failed loads so a later call can try again (e.g. once the file is deployed).
+        pending.catch(() => loadedTranslations.delete(key));
+        loadedTranslations.set(key, pending);
+    }
+    return pending;
+}
+
+const findBook = (name: string): Book | undefined => {
+    const safeBibleBooks: readonly Book[] = BIBLE_BOOKS;
+    return safeBibleBooks.find(b => b.name.toLowerCase() === name.trim().toLowerCase());
+};
+
+// Verses a translation omits (e.g. Acts 8:37 in the WEB) are stored as empty strings.
+const toVerses = (book: Book, chapter: number, texts: string[]): Verse[] => {
+    return texts.map((text, index) => ({
+        book_id: book.id,
+        book_name: book.name,
+        chapter,
+        verse: index + 1,
+        text: (text || '').trim(),
+    })).filter(verse => verse.text.length > 0);
+};
+
+async function getChapter(identifier: ChapterIdentifier, translation: string): Promise<Verse[]> {
+    const data = await loadBundledTranslation(translation);
+    const book = findBook(identifier.book);
+    const chapterTexts = book ? data.books[book.name]?.[identifier.chapter - 1] : undefined;
+    if (!book || !Array.isArray(chapterTexts) || chapterTexts.length === 0) {
+        throw new NotFoundError(`Passage not found in ${translation.toUpperCase()}. Please check the reference.`);
+    }
+    return toVerses(book, identifier.chapter, chapterTexts);
+}
+
+async function getPassage(reference: ParsedReference, translation: string): Promise<Passage> {
+    const verses: Verse[] = [];
+    for (const { start, end } of reference.ranges) {
+        for (let chapter = start.chapter; chapter <= end.chapter; chapter++) {
+            const chapterVerses = await getChapter({ book: start.book, chapter }, translation);
+            verses.push(...chapterVerses.filter(v =>
+                (chapter > start.chapter || start.verse === undefined || v.verse >= start.verse) &&
+                (chapter < end.chapter || end.verse === undefined || v.verse <= end.verse)
+            ));
+        }
+    }
+    if (verses.length === 0) {
+        throw new NotFoundError(`Passage not found in ${translation.toUpperCase()}. Please check the reference.`);
+    }
+
+    const data = await loadBundledTranslation(translation);
+    return {
+        reference: reference.canonical,
+        verses,
+        text: verses.map(v => v.text).join('\n'),
+        translation_id: data.id,
+        translation_name: data.name,
+        translation_note: data.note || 'Public Domain',
+    };
+}
+
+export const bundledBibleProvider: BibleTextProvider = {
+    id: 'bundled',
+    name: 'Offline (bundled)',
+    supportsTranslation: (translation) => BUNDLED_TRANSLATIONS.includes(translation.toLowerCase()),
+    getPassage,
+    getChapter,
+};
@@ -0,0 +1,99 @@
+import { ChapterIdentifier, CitationCheck, ParsedReference, TranslationKey, Verse } from '../types.ts';
+import { getChapterTextFromApi } from './bibleApiService.ts';
+import { parseReference, findCitedReferences, toChapterKey } from '../utils/scriptureReference.ts';
+
+const TEXT_PREVIEW_LENGTH = 200;
+
+// Chapter text and finished checks are kept for the session; failures are dropped so they're retried.
+const loadedChapters = new Map<string, Promise<Verse[]>>();
+const citationChecks = new Map<string, Promise<CitationCheck>>();
+
+function loadChapter(identifier: ChapterIdentifier, translation: TranslationKey): Promise<Verse[]> {
+    const key = `${translation}:${toChapterKey(identifier)}`;
+    let pending = loadedChapters.get(key);
+    if (!pending) {
+        pending = getChapterTextFromApi({ book: identifier.book, chapter: identifier.chapter }, translation);
+        pending.catch(() => loadedChapters.delete(key));
+        loadedChapters.set(key, pending);
+    }
+    return pending;
+}
+
+const describeParseError = (text: string) => {
+    try {
+        parseReference(text);
+        return 'Not a valid scripture reference.';
+    } catch (error) {
+        return error instanceof Error ? error.message : 'Not a valid scripture reference.';
+    }
+};
+
+// The AI sometimes wraps a reference in prose, e.g. "Compare Romans 5:12".
+function resolveCitation(citation: string): ParsedReference | string {
+    try {
+        return parseReference(citation);
+    } catch (error) {
+        const [cited] = findCitedReferences(citation);
+        if (cited?.reference) return cited.reference;
+        return cited ? describeParseError(cited.text) : describeParseError(citation);
+    }
+}
+
+async function checkCitation(citation: string, translation: TranslationKey): Promise<CitationCheck> {
+    const reference = resolveCitation(citation);
+    if (typeof reference === 'string') return { status: 'invalid', reason: reference };
+
+    // Chapters are checked by parsing (against BIBLE_BOOKS); verses need the chapter's real text.
+    const { canonical } = reference;
+    let text = '';
+    try {
+        for (const { start, end } of reference.ranges) {
+            for (const location of [start, end]) {
+                if (location.verse === undefined) continue;
+                const verses = await loadChapter(location, translation);
+                const verseCount = Math.max(0, ...verses.map(v => v.verse));
+                if (location.verse > verseCount) {
+                    return { status: 'invalid', canonical, reason: `${location.book} ${location.chapter} has only ${verseCount} verses.` };
+                }
+            }
+            if (!text && start.verse !== undefined) {
+                const lastVerse = end.chapter === start.chapter ? end.verse ?? Infinity : Infinity;
+                text = (await loadChapter(start, translation))
+                    .filter(v => v.verse >= start.verse! && v.verse <= lastVerse)
+                    .map(v => v.text)
+                    .join(' ');
+            }
+        }
+    } catch (error) {
+        console.warn(`[citationService] Could not load text to check "${citation}":`, error);
+        return { status: 'unchecked', canonical, reason: 'The passage text could not be loaded to check this reference.' };
+    }
+    const preview = text.length > TEXT_PREVIEW_LENGTH ? `${text.slice(0, TEXT_PREVIEW_LENGTH).trimEnd()}…` : text;
+    return { status: 'verified', canonical, text: preview || undefined };
+}
+
+/**
+ * Checks that a reference cited by the AI names a passage that exists: the book and chapter per
+ * BIBLE_BOOKS, and the verses per the translation's actual text.
+ */
+export function verifyCitation(citation: string, translation: TranslationKey): Promise<CitationCheck> {
+    const key = `${translation}|${citation}`;
+    let pending = citationChecks.get(key);
+    if (!pending) {
+        pending = checkCitation(citation, translation);
+        pending.then(check => {
+            if (check.status === 'unchecked') citationChecks.delete(key);
+        });
+        citationChecks.set(key, pending);
+    }
+    return pending;
+}
+
+/**
+ * Checks several citations, keyed by the citation text.
+ */
+export async function verifyCitations(citations: string[], translation: TranslationKey): Promise<Record<string, CitationCheck>> {
+    const unique = [...new Set(citations)];
+    const checks = await Promise.all(unique.map(citation => verifyCitation(citation, translation)));
+    return Object.fromEntries(unique.map((citation, index) => [citation, checks[index]]));
+}
@@ -0,0 +1,42 @@
+import type { AiProvider, AiChat, AiRequestOptions } from './aiProvider.ts';
+import type { ChatGrounding } from './aiPrompts.ts';
+import { getDeepDiveFixture, getEnrichmentsFixture, getSectionFixture, getChatReplyFixture } from './aiFixtures.ts';
+
+const STREAM_CHUNK_LENGTH = 80;
+
+// Reports the canned JSON in pieces like a streaming model, so progressive loading behaves the same.
+async function streamFixture(content: unknown, { signal, onText }: AiRequestOptions = {}): Promise<string> {
+    const text = JSON.stringify(content);
+    for (let end = STREAM_CHUNK_LENGTH; end < text.length + STREAM_CHUNK_LENGTH; end += STREAM_CHUNK_LENGTH) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+        onText?.(text.slice(0, end));
+    }
+    return text;
+}
+
+function startChat(grounding: ChatGrounding | null): AiChat {
+    return {
+        async *sendMessageStream(message: string) {
+            // Stream word by word like a real model, so the chat UI behaves the same.
+            for (const word of getChatReplyFixture(grounding?.passage.identifier ?? null, message).split(/(?<= )/)) {
+                yield word;
+            }
+        },
+    };
+}
+
+/**
+ * Deterministic stand-in that returns canned content without any network access,
+ * for development and demos without an AI key.
+ */
+export const fakeAiProvider: AiProvider = {
+    id: 'fake',
+    name: 'Sample content',
+    model: 'fixtures',
+    cacheResults: false,
+    getChapterDeepDive: (passage, options) => streamFixture(getDeepDiveFixture(passage), options),
+    getAllChapterEnrichments: (passage, options) => streamFixture(getEnrichmentsFixture(passage), options),
+    refineSection: (passage, request, options) => streamFixture(getSectionFixture(passage, request), options),
+    startChat,
+};
@@ -0,0 +1,72 @@
+import { GoogleGenAI } from "@google/genai";
+import { ChatMessage, StudyPassage } from '../types.ts';
+import type { AiProvider, AiChat, AiRequestOptions } from './aiProvider.ts';
+import { PROMPT_TEMPLATES, PromptTemplate, ChatGrounding, buildChatSystemInstruction, buildSectionTemplate, withRetryFeedback } from './aiPrompts.ts';
+
+const model = 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app loads without a key when another provider is in use.
+const getClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw new Error("Gemini is not configured: set GEMINI_API_KEY in .env.local.");
+    }
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client;
+};
+
+async function generateJson(template: PromptTemplate, passage: StudyPassage, { retryFeedback, signal, onText, onUsage }: AiRequestOptions = {}): Promise<string> {
+    const stream = await getClient().models.generateContentStream({
+        model,
+        contents: withRetryFeedback(template.build(passage), retryFeedback),
+        config: {
+            responseMimeType: "application/json",
+            responseJsonSchema: template.schema,
+            abortSignal: signal,
+        }
+    });
+    let text = '';
+    let tokens = 0;
+    for await (const chunk of stream) {
+        // Each chunk reports the usage so far.
+        tokens = chunk.usageMetadata?.totalTokenCount ?? tokens;
+        if (!chunk.text) continue;
+        text += chunk.text;
+        onText?.(text);
+    }
+    onUsage?.(tokens);
+    return text;
+}
+
+function startChat(grounding: ChatGrounding | null, history: ChatMessage[], onUsage?: (tokens: number) => void): AiChat {
+    const chat = getClient().chats.create({
+        model,
+        config: {
+            systemInstruction: buildChatSystemInstruction(grounding),
+        },
+        history: history.map(({ role, content }) => ({ role, parts: [{ text: content }] })),
+    });
+    return {
+        async *sendMessageStream(message: string) {
+            const stream = await chat.sendMessageStream({ message });
+            let tokens = 0;
+            for await (const chunk of stream) {
+                tokens = chunk.usageMetadata?.totalTokenCount ?? tokens;
+                if (chunk.text) yield chunk.text;
+            }
+            onUsage?.(tokens);
+        },
+    };
+}
+
+export const geminiAiProvider: AiProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    model,
+    cacheResults: true,
+    getChapterDeepDive: (passage, options) => generateJson(PROMPT_TEMPLATES.deepDive, passage, options),
+    getAllChapterEnrichments: (passage, options) => generateJson(PROMPT_TEMPLATES.enrichments, passage, options),
+    refineSection: (passage, request, options) => generateJson(buildSectionTemplate(request), passage, options),
+    startChat,
+};
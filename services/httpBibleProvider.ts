@@ -0,0 +1,43 @@
+import { ChapterIdentifier, ParsedReference, Passage, Verse } from '../types.ts';
+import type { BibleTextProvider } from './bibleTextProvider.ts';
+import { fetchBibleJson, NotFoundError } from './bibleFetch.ts';
+
+const API_BASE = 'https://bible-api.com';
+
+/**
+ * Fetches a Bible passage from the public bible-api.com.
+ * @param passage - The scripture reference, e.g., "John 3:16" or "Genesis 1:1-5".
+ * @param translation - The Bible translation to use (e.g., 'kjv', 'web').
+ * @returns A promise that resolves to the passage data or throws a `BibleTextError`.
+ */
+function fetchPassage(passage: string, translation: string, signal?: AbortSignal): Promise<Passage> {
+    // Sanitize passage for URL: replace spaces with '+'
+    const formattedPassage = passage.trim().replace(/\s/g, '+');
+    return fetchBibleJson<Passage>(`${API_BASE}/${formattedPassage}?translation=${translation}`, {
+        signal,
+        notFoundMessage: `Passage not found in ${translation.toUpperCase()}. Please check the reference.`,
+    });
+}
+
+/**
+ * Fetches a whole chapter from bible-api.com and returns a structured array of verses.
+ */
+async function getChapter(identifier: ChapterIdentifier, translation: string, signal?: AbortSignal): Promise<Verse[]> {
+    const passageData = await fetchPassage(`${identifier.book} ${identifier.chapter}`, translation, signal);
+    // ROBUST GUARD: Use Array.isArray to prevent crashes if the API returns a malformed object
+    // where `verses` is not an array. This is the definitive fix for the persistent crash.
+    if (!Array.isArray(passageData.verses) || passageData.verses.length === 0) {
+        throw new NotFoundError(passageData.text || 'Passage not found or API returned empty/malformed verses.');
+    }
+    // Clean up verse text by removing extraneous newlines that some translations might have.
+    return passageData.verses.map(v => ({...v, text: v.text.replace(/\n/g, ' ').trim()}));
+}
+
+export const httpBibleProvider: BibleTextProvider = {
+    id: 'http',
+    name: 'Online (bible-api.com)',
+    // bible-api.com serves many more translations than the app lists (e.g. 'bbe' in the Scripture Reader).
+    supportsTranslation: () => true,
+    getPassage: (reference: ParsedReference, translation: string, signal?: AbortSignal) => fetchPassage(reference.canonical, translation, signal),
+    getChapter,
+};
@@ -0,0 +1,117 @@
+import { UserData, StudyMode, CachedChapterContent, ChatThread } from '../types.ts';
+import type { UserDataStore } from './userDataStore.ts';
+import { robustSafeParse } from '../utils/cache.ts';
+import { createNoteId } from '../utils/notes.ts';
+import { normalizeChatThreads } from '../utils/chatThreads.ts';
+
+// Guest profiles get ids with this prefix so they can never collide with Supabase user ids.
+const LOCAL_ID_PREFIX = 'guest-';
+
+const profileKey = (id: string) => `localProfile-${id}`;
+// Cached chapter content is kept apart from the profile: it is large, and losing it to the
+// storage quota should never cost the user their notes.
+const cacheKey = (id: string) => `localCachedContent-${id}`;
+const chatThreadsKey = (id: string) => `localChatThreads-${id}`;
+
+export const isLocalUserId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+export function createLocalUserId(): string {
+    return `${LOCAL_ID_PREFIX}${createNoteId()}`;
+}
+
+const readProfile = (id: string): Omit<UserData, 'cachedContent'> | null => {
+    const profile = robustSafeParse<Omit<UserData, 'cachedContent'> | null>(profileKey(id), null);
+    return profile && typeof profile === 'object' && profile.id === id ? profile : null;
+};
+
+const writeProfile = (profile: Omit<UserData, 'cachedContent'>) => {
+    // Unlike the cache, a failed profile write must reach the caller so unsaved changes aren't dropped.
+    localStorage.setItem(profileKey(profile.id), JSON.stringify(profile));
+};
+
+const writeCachedContent = (id: string, cachedContent: Record<string, CachedChapterContent>) => {
+    try {
+        localStorage.setItem(cacheKey(id), JSON.stringify(cachedContent));
+    } catch (error) {
+        console.warn('[localUserDataStore] Could not cache chapter content locally:', error);
+    }
+};
+
+export async function getUserData(id: string): Promise<UserData | null> {
+    const profile = readProfile(id);
+    if (!profile) return null;
+    return { ...profile, cachedContent: robustSafeParse(cacheKey(id), {}) };
+}
+
+export async function updateUserData(id: string, data: Partial<UserData>): Promise<string | null> {
+    const profile = readProfile(id);
+    if (!profile) throw new Error('This guest profile no longer exists on this device.');
+
+    const { cachedContent, ...profileData } = data;
+    if (cachedContent !== undefined) writeCachedContent(id, cachedContent);
+    if (Object.keys(profileData).length === 0) return null;
+
+    const updatedAt = new Date().toISOString();
+    writeProfile({ ...profile, ...profileData, id, updated_at: updatedAt });
+    return updatedAt;
+}
+
+export async function getProfileUpdatedAt(id: string): Promise<string | null> {
+    return readProfile(id)?.updated_at ?? null;
+}
+
+export async function createProfileForUser(id: string, username: string | undefined | null): Promise<UserData | null> {
+    const existing = await getUserData(id);
+    if (existing) return existing;
+
+    const profile: Omit<UserData, 'cachedContent'> = {
+        id,
+        username: username?.trim() || 'Guest',
+        studyMode: StudyMode.READ_THROUGH,
+        readThroughIndex: 0,
+        userSelectedChapter: null,
+        completedChapters: [],
+        bookmarks: [],
+        notes: {},
+        highlights: {},
+        translation: 'web',
+        updated_at: new Date().toISOString(),
+    };
+    writeProfile(profile);
+    return { ...profile, cachedContent: {} };
+}
+
+export async function listChatThreads(id: string): Promise<ChatThread[]> {
+    return normalizeChatThreads(robustSafeParse<unknown>(chatThreadsKey(id), []));
+}
+
+export async function saveChatThread(id: string, thread: ChatThread): Promise<void> {
+    const threads = (await listChatThreads(id)).filter(existing => existing.id !== thread.id);
+    localStorage.setItem(chatThreadsKey(id), JSON.stringify([thread, ...threads]));
+}
+
+export async function deleteChatThread(id: string, threadId: string): Promise<void> {
+    const threads = (await listChatThreads(id)).filter(existing => existing.id !== threadId);
+    localStorage.setItem(chatThreadsKey(id), JSON.stringify(threads));
+}
+
+/**
+ * Removes a local profile, its cached content and chat threads, e.g. after they have been moved
+ * to an account.
+ */
+export function deleteLocalProfile(id: string): void {
+    localStorage.removeItem(profileKey(id));
+    localStorage.removeItem(cacheKey(id));
+    localStorage.removeItem(chatThreadsKey(id));
+}
+
+export const localUserDataStore: UserDataStore = {
+    id: 'local',
+    getUserData,
+    updateUserData,
+    getProfileUpdatedAt,
+    createProfileForUser,
+    listChatThreads,
+    saveChatThread,
+    deleteChatThread,
+};
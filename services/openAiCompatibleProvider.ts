@@ -0,0 +1,113 @@
+import { ChatMessage, StudyPassage } from '../types.ts';
+import type { AiProvider, AiChat, AiRequestOptions } from './aiProvider.ts';
+import { PROMPT_TEMPLATES, PromptTemplate, ChatGrounding, buildChatSystemInstruction, buildSectionTemplate, withRetryFeedback } from './aiPrompts.ts';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local model
+// server such as Ollama, llama.cpp or LM Studio (e.g. VITE_AI_BASE_URL=http://localhost:11434/v1).
+const BASE_URL = (import.meta.env?.VITE_AI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+const API_KEY = import.meta.env?.VITE_AI_API_KEY || '';
+const MODEL = import.meta.env?.VITE_AI_MODEL || 'gpt-4o-mini';
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+async function requestCompletion(body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+        },
+        body: JSON.stringify({ model: MODEL, ...body }),
+    });
+    if (!response.ok) {
+        let errorMessage = `AI request failed with status ${response.status}`;
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.error?.message || errorMessage;
+        } catch (e) {
+            // Ignore if response body is not JSON
+        }
+        // The status lets callers retry when rate limited (429).
+        throw Object.assign(new Error(errorMessage), { status: response.status });
+    }
+    return response;
+}
+
+async function generateJson(template: PromptTemplate, passage: StudyPassage, { retryFeedback, signal, onText, onUsage }: AiRequestOptions = {}): Promise<string> {
+    const response = await requestCompletion({
+        messages: [{ role: 'user', content: withRetryFeedback(template.build(passage), retryFeedback) }],
+        response_format: { type: 'json_schema', json_schema: { name: template.name, schema: template.schema } },
+        stream: true,
+        stream_options: { include_usage: true },
+    }, signal);
+    let content = '';
+    for await (const delta of readCompletionStream(response, onUsage)) {
+        content += delta;
+        onText?.(content);
+    }
+    if (!content) throw new Error('AI response contained no message.');
+    return content;
+}
+
+/**
+ * Reads the text deltas from a streamed (server-sent events) chat completion. Servers that
+ * support it send the token usage in a final chunk, which is passed to `onUsage`.
+ */
+async function* readCompletionStream(response: Response, onUsage?: (tokens: number) => void): AsyncGenerator<string> {
+    if (!response.body) throw new Error('AI response could not be streamed.');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice('data:'.length).trim();
+            if (payload === '[DONE]') return;
+            const chunk = JSON.parse(payload);
+            if (typeof chunk.usage?.total_tokens === 'number') onUsage?.(chunk.usage.total_tokens);
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) yield delta;
+        }
+    }
+}
+
+function startChat(grounding: ChatGrounding | null, earlierMessages: ChatMessage[], onUsage?: (tokens: number) => void): AiChat {
+    const history: ChatCompletionMessage[] = [
+        { role: 'system', content: buildChatSystemInstruction(grounding) },
+        ...earlierMessages.map(({ role, content }): ChatCompletionMessage => ({ role: role === 'model' ? 'assistant' : 'user', content })),
+    ];
+    return {
+        async *sendMessageStream(message: string) {
+            const messages = [...history, { role: 'user' as const, content: message }];
+            const response = await requestCompletion({ messages, stream: true, stream_options: { include_usage: true } });
+            let reply = '';
+            for await (const delta of readCompletionStream(response, onUsage)) {
+                reply += delta;
+                yield delta;
+            }
+            // Only completed exchanges become part of the conversation.
+            history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+        },
+    };
+}
+
+export const openAiCompatibleProvider: AiProvider = {
+    id: 'openai',
+    name: 'OpenAI-compatible server',
+    model: MODEL,
+    cacheResults: true,
+    getChapterDeepDive: (passage, options) => generateJson(PROMPT_TEMPLATES.deepDive, passage, options),
+    getAllChapterEnrichments: (passage, options) => generateJson(PROMPT_TEMPLATES.enrichments, passage, options),
+    refineSection: (passage, request, options) => generateJson(buildSectionTemplate(request), passage, options),
+    startChat,
+};
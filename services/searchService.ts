@@ -0,0 +1,270 @@
+import { BIBLE_BOOKS } from '../constants.ts';
+import { Book, BookName } from '../types.ts';
+import { loadBundledTranslation, BUNDLED_TRANSLATIONS } from './bundledBibleProvider.ts';
+import { NotFoundError } from './bibleFetch.ts';
+
+export interface SearchFilters {
+    testament?: Book['testament'] | null;
+    books?: BookName[];
+}
+
+export interface SearchResult {
+    book: BookName;
+    chapter: number;
+    verse: number;
+    text: string;
+    translation: string;
+    // Normalized query words that matched ("lov*" for wildcards), used to highlight the snippet.
+    matchedTerms: string[];
+}
+
+export interface SearchOutcome {
+    // In canonical order, with a verse's hits in different translations next to each other
+    // (in the order the translations were requested).
+    results: SearchResult[];
+    // Requested translations whose text isn't installed, so they weren't searched.
+    unavailable: string[];
+}
+
+interface IndexedVerse {
+    book: BookName;
+    testament: Book['testament'];
+    chapter: number;
+    verse: number;
+    text: string;
+    normalized: string;
+}
+
+interface SearchIndex {
+    verses: IndexedVerse[];
+    // Word -> ascending indexes into `verses`.
+    postings: Map<string, number[]>;
+}
+
+type QueryTerm = { kind: 'word'; value: string } | { kind: 'prefix'; value: string } | { kind: 'phrase'; words: string[] };
+
+interface QueryClause {
+    include: QueryTerm[];
+    exclude: QueryTerm[];
+}
+
+const MAX_RESULTS = 200;
+
+const indexes = new Map<string, Promise<SearchIndex>>();
+
+const normalizeText = (text: string) => text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '');
+
+const tokenize = (text: string): string[] => normalizeText(text).match(/[a-z0-9]+/g) || [];
+
+/**
+ * Translations that can be searched offline, i.e. those with bundled text.
+ */
+export const SEARCHABLE_TRANSLATIONS = BUNDLED_TRANSLATIONS;
+
+const buildIndex = async (translation: string): Promise<SearchIndex> => {
+    const data = await loadBundledTranslation(translation);
+    const safeBibleBooks: readonly Book[] = BIBLE_BOOKS;
+    const verses: IndexedVerse[] = [];
+    const postings = new Map<string, number[]>();
+
+    safeBibleBooks.forEach(book => {
+        (data.books[book.name] || []).forEach((chapterTexts, chapterIndex) => {
+            chapterTexts.forEach((text, verseIndex) => {
+                const position = verses.length;
+                const words = tokenize(text);
+                verses.push({
+                    book: book.name,
+                    testament: book.testament,
+                    chapter: chapterIndex + 1,
+                    verse: verseIndex + 1,
+                    text: text.trim(),
+                    normalized: ` ${words.join(' ')} `,
+                });
+                new Set(words).forEach(word => {
+                    const list = postings.get(word);
+                    if (list) list.push(position); else postings.set(word, [position]);
+                });
+            });
+        });
+    });
+
+    return { verses, postings };
+};
+
+/**
+ * Returns the search index for a translation, building it on first use.
+ */
+export function getSearchIndex(translation: string): Promise<SearchIndex> {
+    const key = translation.toLowerCase();
+    let pending = indexes.get(key);
+    if (!pending) {
+        pending = buildIndex(key);
+        pending.catch(() => indexes.delete(key));
+        indexes.set(key, pending);
+    }
+    return pending;
+}
+
+/**
+ * Parses a query into OR-separated clauses of required and excluded terms.
+ * Supports "quoted phrases", AND (implicit), OR, NOT / -term, and trailing * wildcards.
+ */
+export function parseSearchQuery(query: string): QueryClause[] {
+    const clauses: QueryClause[] = [];
+    let current: QueryClause = { include: [], exclude: [] };
+    let negateNext = false;
+
+    const tokenPattern = /(-?)"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(query)) !== null) {
+        const [, quoteNegation, phrase, bare] = match;
+        if (bare === 'OR') {
+            if (current.include.length > 0) clauses.push(current);
+            current = { include: [], exclude: [] };
+            continue;
+        }
+        if (bare === 'AND') continue;
+        if (bare === 'NOT') {
+            negateNext = true;
+            continue;
+        }
+
+        let negate = negateNext || quoteNegation === '-';
+        negateNext = false;
+        let term: QueryTerm | null = null;
+        if (phrase !== undefined) {
+            const words = tokenize(phrase);
+            if (words.length === 1) term = { kind: 'word', value: words[0] };
+            else if (words.length > 1) term = { kind: 'phrase', words };
+        } else {
+            const raw = bare.startsWith('-') && bare.length > 1 ? bare.slice(1) : bare;
+            if (raw !== bare) negate = true;
+            const words = tokenize(raw);
+            if (words.length === 1 && raw.endsWith('*')) term = { kind: 'prefix', value: words[0] };
+            else if (words.length === 1) term = { kind: 'word', value: words[0] };
+            else if (words.length > 1) term = { kind: 'phrase', words };
+        }
+        if (term) (negate ? current.exclude : current.include).push(term);
+    }
+    if (current.include.length > 0) clauses.push(current);
+    return clauses;
+}
+
+const intersect = (a: number[], b: number[]): number[] => {
+    const result: number[] = [];
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { result.push(a[i]); i++; j++; }
+        else if (a[i] < b[j]) i++;
+        else j++;
+    }
+    return result;
+};
+
+const matchTerm = (index: SearchIndex, term: QueryTerm): number[] => {
+    if (term.kind === 'word') {
+        return index.postings.get(term.value) || [];
+    }
+    if (term.kind === 'prefix') {
+        const merged = new Set<number>();
+        index.postings.forEach((positions, word) => {
+            if (word.startsWith(term.value)) positions.forEach(p => merged.add(p));
+        });
+        return [...merged].sort((a, b) => a - b);
+    }
+    const candidates = term.words
+        .map(word => index.postings.get(word) || [])
+        .reduce((acc, list) => intersect(acc, list));
+    const needle = ` ${term.words.join(' ')} `;
+    return candidates.filter(position => index.verses[position].normalized.includes(needle));
+};
+
+const termWords = (term: QueryTerm): string[] => {
+    if (term.kind === 'phrase') return term.words;
+    return [term.kind === 'prefix' ? `${term.value}*` : term.value];
+};
+
+/**
+ * Splits verse text into segments, flagging the words matched by a search so they can be highlighted.
+ */
+export function highlightMatches(text: string, matchedTerms: string[]): { text: string; isMatch: boolean }[] {
+    const exact = new Set(matchedTerms.filter(t => !t.endsWith('*')));
+    const prefixes = matchedTerms.filter(t => t.endsWith('*')).map(t => t.slice(0, -1));
+    return text.split(/([\p{L}\p{N}'’]+)/u).filter(Boolean).map(segment => {
+        const normalized = tokenize(segment).join('');
+        const isMatch = normalized.length > 0 && (exact.has(normalized) || prefixes.some(p => normalized.startsWith(p)));
+        return { text: segment, isMatch };
+    });
+}
+
+async function searchTranslation(clauses: QueryClause[], translation: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const index = await getSearchIndex(translation);
+    const bookFilter = filters.books && filters.books.length > 0 ? new Set(filters.books) : null;
+    const matches = new Map<number, Set<string>>();
+
+    clauses.forEach(clause => {
+        let positions = clause.include
+            .map(term => matchTerm(index, term))
+            .reduce((acc, list) => intersect(acc, list));
+        clause.exclude.forEach(term => {
+            const excluded = new Set(matchTerm(index, term));
+            positions = positions.filter(p => !excluded.has(p));
+        });
+        const words = clause.include.flatMap(termWords);
+        positions.forEach(position => {
+            const set = matches.get(position) || new Set<string>();
+            words.forEach(w => set.add(w));
+            matches.set(position, set);
+        });
+    });
+
+    return [...matches.keys()]
+        .sort((a, b) => a - b)
+        .map(position => ({ verse: index.verses[position], terms: matches.get(position)! }))
+        .filter(({ verse }) => (!filters.testament || verse.testament === filters.testament) && (!bookFilter || bookFilter.has(verse.book)))
+        .slice(0, MAX_RESULTS)
+        .map(({ verse, terms }) => ({
+            book: verse.book,
+            chapter: verse.chapter,
+            verse: verse.verse,
+            text: verse.text,
+            translation,
+            matchedTerms: [...terms],
+        }));
+}
+
+const bookPosition = (book: BookName) => (BIBLE_BOOKS as readonly Book[]).findIndex(b => b.name === book);
+
+const compareResults = (translations: string[]) => (a: SearchResult, b: SearchResult) =>
+    bookPosition(a.book) - bookPosition(b.book) ||
+    a.chapter - b.chapter ||
+    a.verse - b.verse ||
+    translations.indexOf(a.translation) - translations.indexOf(b.translation);
+
+/**
+ * Searches the locally bundled text of each translation. Works offline once the translation files are cached.
+ * Translations whose text isn't installed are skipped and listed in `unavailable`.
+ * @throws `NotFoundError` if none of the translations is installed, or another error if none could be searched.
+ */
+export async function searchScripture(query: string, translations: string[] = SEARCHABLE_TRANSLATIONS, filters: SearchFilters = {}): Promise<SearchOutcome> {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) return { results: [], unavailable: [] };
+
+    const settled = await Promise.allSettled(translations.map(translation => searchTranslation(clauses, translation, filters)));
+    const failures = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected').map(r => r.reason);
+    if (failures.length === settled.length && failures.length > 0) {
+        throw failures.find(reason => !(reason instanceof NotFoundError)) ?? failures[0];
+    }
+
+    return {
+        results: settled
+            .flatMap(r => r.status === 'fulfilled' ? r.value : [])
+            .sort(compareResults(translations))
+            .slice(0, MAX_RESULTS),
+        unavailable: translations.filter((_, i) => settled[i].status === 'rejected' && settled[i].reason instanceof NotFoundError),
+    };
+}
@@ -1,7 +1,7 @@
 console.log("supabaseClient.ts loaded");
 
-import { createClient } from '@supabase/supabase-js';
-import type { ChapterIdentifier, CachedChapterContent } from '../types.ts';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { ChapterIdentifier, CachedChapterContent, HighlightCategory } from '../types.ts';
 
 export type Json =
   | string
@@ -26,6 +26,8 @@ export interface Database {
           study_mode: string | null
           read_through_index: number | null
           user_selected_chapter: Json | null
+          // Superseded by the progress_events, bookmarks, notes and cached_content tables.
+          // Kept until every profile has been migrated; no longer read or written by the app.
           completed_chapters: string[] | null
           bookmarks: string[] | null
           notes: Json | null
@@ -59,6 +61,189 @@ export interface Database {
           translation?: string | null
         }
       }
+      // One row per note. `id` is the client-generated StudyNote id.
+      notes: {
+        Row: {
+          user_id: string
+          id: string
+          chapter_key: string
+          start_verse: number | null
+          end_verse: number | null
+          content: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          id: string
+          chapter_key: string
+          start_verse?: number | null
+          end_verse?: number | null
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          id?: string
+          chapter_key?: string
+          start_verse?: number | null
+          end_verse?: number | null
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      bookmarks: {
+        Row: {
+          user_id: string
+          chapter_key: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          chapter_key: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          chapter_key?: string
+          created_at?: string
+        }
+      }
+      // Append-only log; a chapter is complete if its latest event is 'completed'.
+      progress_events: {
+        Row: {
+          id: number
+          user_id: string
+          chapter_key: string
+          event: 'completed' | 'reset'
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          chapter_key: string
+          event: 'completed' | 'reset'
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          chapter_key?: string
+          event?: 'completed' | 'reset'
+          created_at?: string
+        }
+      }
+      // One row per highlighted verse. `verse_key` is a toVerseKey key, the same in every translation.
+      highlights: {
+        Row: {
+          user_id: string
+          verse_key: string
+          category: HighlightCategory
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          verse_key: string
+          category: HighlightCategory
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          verse_key?: string
+          category?: HighlightCategory
+          created_at?: string
+        }
+      }
+      cached_content: {
+        Row: {
+          user_id: string
+          cache_key: string
+          content: Json
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          cache_key: string
+          content: Json
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          cache_key?: string
+          content?: Json
+          updated_at?: string
+        }
+      }
+      // One row per saved chat thread, with its messages. `id` is client-generated.
+      chat_threads: {
+        Row: {
+          user_id: string
+          id: string
+          chapter_key: string | null
+          title: string
+          messages: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          id: string
+          chapter_key?: string | null
+          title?: string
+          messages?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          id?: string
+          chapter_key?: string | null
+          title?: string
+          messages?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // AI study content shared by all users; user cached_content rows refer to it by id.
+      ai_content: {
+        Row: {
+          id: string
+          chapter_key: string
+          translation: string | null
+          kind: 'deepDive' | 'enrichments'
+          prompt_version: number
+          model: string
+          content: Json
+          created_at: string
+          // Who shared it; null for entries moved from users' caches.
+          created_by: string | null
+        }
+        // Clients add entries through share_ai_content; only moderators update or delete them.
+        Insert: {
+          id: string
+          chapter_key: string
+          translation?: string | null
+          kind: 'deepDive' | 'enrichments'
+          prompt_version: number
+          model: string
+          content: Json
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          chapter_key?: string
+          translation?: string | null
+          kind?: 'deepDive' | 'enrichments'
+          prompt_version?: number
+          model?: string
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -68,6 +253,18 @@ export interface Database {
         Args: Record<PropertyKey, never>
         Returns: unknown
       }
+      // Adds an entry to ai_content unless one exists for the key; returns the entry's id.
+      share_ai_content: {
+        Args: {
+          p_chapter_key: string
+          p_translation: string
+          p_kind: 'deepDive' | 'enrichments'
+          p_prompt_version: number
+          p_model: string
+          p_content: Json
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -84,38 +281,59 @@ export interface Database {
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-    throw new Error(
-        "Supabase URL and Anon Key are required. " +
-        "For local development, create a .env.local file with:\n" +
+/**
+ * Whether Supabase credentials were provided. Without them accounts are unavailable and
+ * the app runs in guest mode, keeping data on this device.
+ */
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+if (!isSupabaseConfigured) {
+    console.warn(
+        "Supabase is not configured, so accounts are disabled and only guest mode is available. " +
+        "To enable accounts, create a .env.local file with:\n" +
         "VITE_SUPABASE_URL=your_supabase_url\n" +
         "VITE_SUPABASE_ANON_KEY=your_supabase_anon_key\n" +
         "Get these values from your Supabase project Settings > API"
     );
 }
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+export const supabase: SupabaseClient<Database> | null = isSupabaseConfigured
+    ? createClient<Database>(supabaseUrl!, supabaseAnonKey!)
+    : null;
 
-// Add this at the bottom of supabaseClient.ts for a quick test
-supabase
-  .from('profiles')
-  .select('*')
-  .limit(1)
-  .then(({ data, error }) => {
-    if (error) {
-      console.error('Supabase test error:', error);
-    } else if (data && data.length === 0) {
-      console.warn('Supabase test: profiles table is empty or inaccessible (data is empty array)');
-    } else {
-      console.log('Supabase test data:', data);
+/**
+ * Returns the Supabase client.
+ * @throws If Supabase is not configured; check `isSupabaseConfigured` first.
+ */
+export function requireSupabase(): SupabaseClient<Database> {
+    if (!supabase) {
+        throw new Error('Accounts are not available: Supabase is not configured for this app.');
     }
-  }, (e) => {
-    // This is the error handler for the promise
-    console.error('Supabase test fatal error:', e);
-  });
+    return supabase;
+}
+
+if (supabase) {
+  // Add this at the bottom of supabaseClient.ts for a quick test
+  supabase
+    .from('profiles')
+    .select('*')
+    .limit(1)
+    .then(({ data, error }) => {
+      if (error) {
+        console.error('Supabase test error:', error);
+      } else if (data && data.length === 0) {
+        console.warn('Supabase test: profiles table is empty or inaccessible (data is empty array)');
+      } else {
+        console.log('Supabase test data:', data);
+      }
+    }, (e) => {
+      // This is the error handler for the promise
+      console.error('Supabase test fatal error:', e);
+    });
 
-// Directly test Supabase Auth session retrieval
-supabase.auth.getSession().then(
-  (result) => console.log("[supabaseClient] getSession result:", result),
-  (error) => console.error("[supabaseClient] getSession error:", error)
-);
\ No newline at end of file
+  // Directly test Supabase Auth session retrieval
+  supabase.auth.getSession().then(
+    (result) => console.log("[supabaseClient] getSession result:", result),
+    (error) => console.error("[supabaseClient] getSession error:", error)
+  );
+}
@@ -0,0 +1,507 @@
+import { UserData, StudyMode, ChapterIdentifier, CachedChapterContent, TranslationKey, VerseHighlight, StudyNote, ChatThread } from '../types.ts';
+import { requireSupabase, Database, Json } from './supabaseClient.ts';
+import type { UserDataStore } from './userDataStore.ts';
+import { normalizeChatMessages, sortChatThreads } from '../utils/chatThreads.ts';
+
+type ProfileRow = Database['public']['Tables']['profiles']['Row'];
+type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+type NoteRow = Database['public']['Tables']['notes']['Row'];
+type NoteInsert = Database['public']['Tables']['notes']['Insert'];
+type ProgressEvent = Database['public']['Tables']['progress_events']['Row']['event'];
+type ChatThreadRow = Database['public']['Tables']['chat_threads']['Row'];
+
+// Notes, bookmarks, highlights, progress and cached content live in their own tables (see UserCollections).
+const PROFILE_COLUMNS = 'id, updated_at, username, study_mode, read_through_index, user_selected_chapter, translation';
+const NOTE_COLUMNS = 'id, chapter_key, start_verse, end_verse, content, created_at, updated_at';
+const CHAT_THREAD_COLUMNS = 'id, chapter_key, title, messages, created_at, updated_at';
+
+/**
+ * The parts of UserData stored one row per item rather than on the profile.
+ */
+type UserCollections = Pick<UserData, 'notes' | 'bookmarks' | 'highlights' | 'completedChapters' | 'cachedContent'>;
+
+const EMPTY_COLLECTIONS: UserCollections = { notes: {}, bookmarks: [], highlights: {}, completedChapters: [], cachedContent: {} };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Type guard to check if an object is a valid ChapterIdentifier.
+ * This prevents crashes from malformed data in the database.
+ * @param obj The object to check.
+ * @returns True if the object is a valid ChapterIdentifier.
+ */
+const isChapterIdentifier = (obj: any): obj is ChapterIdentifier => {
+    return obj && typeof obj.book === 'string' && typeof obj.chapter === 'number';
+};
+
+const fromSupabase = (profile: ProfileRow, collections: UserCollections): UserData => {
+    const rawChapter = profile.user_selected_chapter as unknown;
+    const validatedChapter = isChapterIdentifier(rawChapter) ? rawChapter : null;
+
+    return {
+        id: profile.id,
+        username: profile.username || 'User',
+        studyMode: (profile.study_mode as StudyMode) || StudyMode.READ_THROUGH,
+        readThroughIndex: profile.read_through_index ?? 0,
+        userSelectedChapter: validatedChapter,
+        ...collections,
+        translation: (profile.translation as TranslationKey) || 'web',
+        updated_at: profile.updated_at || undefined
+    };
+};
+
+const toSupabase = (data: Partial<UserData>): Partial<ProfileUpdate> => {
+    const dbData: Partial<ProfileUpdate> = {};
+    if (data.username !== undefined) dbData.username = data.username;
+    if (data.studyMode !== undefined) dbData.study_mode = data.studyMode;
+    if (data.readThroughIndex !== undefined) dbData.read_through_index = data.readThroughIndex;
+    if (data.userSelectedChapter !== undefined) dbData.user_selected_chapter = data.userSelectedChapter as unknown as Json;
+    if (data.translation !== undefined) dbData.translation = data.translation;
+    return dbData;
+};
+
+const noteFromRow = (row: Pick<NoteRow, 'id' | 'start_verse' | 'end_verse' | 'content' | 'created_at' | 'updated_at'>): StudyNote => ({
+    id: row.id,
+    ...(row.start_verse !== null ? { startVerse: row.start_verse } : {}),
+    ...(row.end_verse !== null ? { endVerse: row.end_verse } : {}),
+    content: row.content,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+const noteToRow = (userId: string, chapterKey: string, note: StudyNote): NoteInsert => ({
+    user_id: userId,
+    id: note.id,
+    chapter_key: chapterKey,
+    start_verse: note.startVerse ?? null,
+    end_verse: note.endVerse ?? null,
+    content: note.content,
+    created_at: note.createdAt,
+    updated_at: note.updatedAt,
+});
+
+const throwIfFailed = (context: string, results: { error: { message: string } | null }[]) => {
+    const failed = results.find(result => result.error);
+    if (failed?.error) {
+        console.error(`${context}: ${failed.error.message}`, failed.error);
+        throw new Error(failed.error.message);
+    }
+};
+
+/**
+ * Reads a user's notes, bookmarks, highlights, reading progress and cached content from their tables.
+ * @throws If any of the tables cannot be read.
+ */
+async function loadUserCollections(userId: string): Promise<UserCollections> {
+    const supabase = requireSupabase();
+    const [notesResult, bookmarksResult, highlightsResult, progressResult, cacheResult] = await Promise.all([
+        supabase.from('notes').select(NOTE_COLUMNS).eq('user_id', userId),
+        supabase.from('bookmarks').select('chapter_key').eq('user_id', userId).order('created_at'),
+        supabase.from('highlights').select('verse_key, category, created_at').eq('user_id', userId),
+        supabase.from('progress_events').select('chapter_key, event').eq('user_id', userId).order('id'),
+        supabase.from('cached_content').select('cache_key, content').eq('user_id', userId),
+    ]);
+    throwIfFailed('Error loading user data', [notesResult, bookmarksResult, highlightsResult, progressResult, cacheResult]);
+
+    const notes: Record<string, StudyNote[]> = {};
+    (notesResult.data || []).forEach(row => {
+        (notes[row.chapter_key] = notes[row.chapter_key] || []).push(noteFromRow(row));
+    });
+
+    // Replay the progress log; insertion order keeps chapters in the order they were completed.
+    const completed = new Set<string>();
+    (progressResult.data || []).forEach(({ chapter_key, event }) => {
+        if (event === 'completed') completed.add(chapter_key);
+        else completed.delete(chapter_key);
+    });
+
+    const cachedContent: Record<string, CachedChapterContent> = {};
+    (cacheResult.data || []).forEach(row => {
+        cachedContent[row.cache_key] = row.content as unknown as CachedChapterContent;
+    });
+
+    const highlights: Record<string, VerseHighlight> = {};
+    (highlightsResult.data || []).forEach(row => {
+        highlights[row.verse_key] = { category: row.category, createdAt: row.created_at };
+    });
+
+    return {
+        notes,
+        bookmarks: (bookmarksResult.data || []).map(row => row.chapter_key),
+        highlights,
+        completedChapters: [...completed],
+        cachedContent,
+    };
+}
+
+/**
+ * Inserts or updates individual notes.
+ */
+export async function saveNotes(userId: string, notes: { chapterKey: string; note: StudyNote }[]): Promise<void> {
+    const supabase = requireSupabase();
+    if (notes.length === 0) return;
+    const result = await supabase
+        .from('notes')
+        .upsert(notes.map(({ chapterKey, note }) => noteToRow(userId, chapterKey, note)), { onConflict: 'user_id,id' });
+    throwIfFailed('Error saving notes', [result]);
+}
+
+/**
+ * Deletes notes by id.
+ */
+export async function deleteNotes(userId: string, noteIds: string[]): Promise<void> {
+    const supabase = requireSupabase();
+    if (noteIds.length === 0) return;
+    const result = await supabase.from('notes').delete().eq('user_id', userId).in('id', noteIds);
+    throwIfFailed('Error deleting notes', [result]);
+}
+
+/**
+ * Adds and removes bookmarked chapters.
+ */
+export async function updateBookmarks(userId: string, added: string[], removed: string[]): Promise<void> {
+    const supabase = requireSupabase();
+    const results = await Promise.all([
+        added.length > 0
+            ? supabase.from('bookmarks').upsert(added.map(chapter_key => ({ user_id: userId, chapter_key })), { onConflict: 'user_id,chapter_key', ignoreDuplicates: true })
+            : { error: null },
+        removed.length > 0
+            ? supabase.from('bookmarks').delete().eq('user_id', userId).in('chapter_key', removed)
+            : { error: null },
+    ]);
+    throwIfFailed('Error updating bookmarks', results);
+}
+
+/**
+ * Sets and removes verse highlights by verse key.
+ */
+export async function updateHighlights(userId: string, changed: Record<string, VerseHighlight>, removed: string[]): Promise<void> {
+    const supabase = requireSupabase();
+    const results = await Promise.all([
+        Object.keys(changed).length > 0
+            ? supabase.from('highlights').upsert(
+                Object.entries(changed).map(([verse_key, highlight]) => ({ user_id: userId, verse_key, category: highlight.category, created_at: highlight.createdAt })),
+                { onConflict: 'user_id,verse_key' }
+            )
+            : { error: null },
+        removed.length > 0
+            ? supabase.from('highlights').delete().eq('user_id', userId).in('verse_key', removed)
+            : { error: null },
+    ]);
+    throwIfFailed('Error updating highlights', results);
+}
+
+/**
+ * Appends reading progress events, e.g. marking chapters completed or resetting them.
+ */
+export async function recordProgress(userId: string, chapterKeys: string[], event: ProgressEvent): Promise<void> {
+    const supabase = requireSupabase();
+    if (chapterKeys.length === 0) return;
+    const result = await supabase
+        .from('progress_events')
+        .insert(chapterKeys.map(chapter_key => ({ user_id: userId, chapter_key, event })));
+    throwIfFailed('Error recording progress', [result]);
+}
+
+/**
+ * Stores and removes cached chapter content by cache key.
+ */
+export async function updateCachedContent(userId: string, changed: Record<string, CachedChapterContent>, removed: string[]): Promise<void> {
+    const supabase = requireSupabase();
+    const now = new Date().toISOString();
+    const results = await Promise.all([
+        Object.keys(changed).length > 0
+            ? supabase.from('cached_content').upsert(
+                Object.entries(changed).map(([cache_key, content]) => ({ user_id: userId, cache_key, content: content as unknown as Json, updated_at: now })),
+                { onConflict: 'user_id,cache_key' }
+            )
+            : { error: null },
+        removed.length > 0
+            ? supabase.from('cached_content').delete().eq('user_id', userId).in('cache_key', removed)
+            : { error: null },
+    ]);
+    throwIfFailed('Error updating cached content', results);
+}
+
+const flattenNotes = (notes: Record<string, StudyNote[]>) => {
+    const flat = new Map<string, { chapterKey: string; note: StudyNote }>();
+    Object.entries(notes).forEach(([chapterKey, chapterNotes]) => {
+        chapterNotes.forEach(note => flat.set(note.id, { chapterKey, note }));
+    });
+    return flat;
+};
+
+// Snapshots are rebuilt from storage and the server, so rows are compared by value.
+const isSameNote = (a: StudyNote, b: StudyNote) =>
+    a.content === b.content && a.startVerse === b.startVerse && a.endVerse === b.endVerse && a.updatedAt === b.updatedAt;
+
+const isSameHighlight = (a: VerseHighlight | undefined, b: VerseHighlight) =>
+    a !== undefined && a.category === b.category && a.createdAt === b.createdAt;
+
+/**
+ * Writes only the rows that differ between two snapshots of the collections.
+ */
+const syncCollections = (userId: string, next: Partial<UserCollections>, previous: Partial<UserCollections>): Promise<void>[] => {
+    const writes: Promise<void>[] = [];
+
+    if (next.notes !== undefined) {
+        const before = flattenNotes(previous.notes || {});
+        const after = flattenNotes(next.notes);
+        const changed = [...after.values()].filter(({ chapterKey, note }) => {
+            const old = before.get(note.id);
+            return !old || old.chapterKey !== chapterKey || !isSameNote(old.note, note);
+        });
+        writes.push(saveNotes(userId, changed));
+        writes.push(deleteNotes(userId, [...before.keys()].filter(noteId => !after.has(noteId))));
+    }
+
+    if (next.bookmarks !== undefined) {
+        const before = new Set(previous.bookmarks || []);
+        const after = new Set(next.bookmarks);
+        writes.push(updateBookmarks(userId, [...after].filter(k => !before.has(k)), [...before].filter(k => !after.has(k))));
+    }
+
+    if (next.highlights !== undefined) {
+        const before = previous.highlights || {};
+        const after = next.highlights;
+        const changed = Object.fromEntries(Object.entries(after).filter(([key, highlight]) => !isSameHighlight(before[key], highlight)));
+        writes.push(updateHighlights(userId, changed, Object.keys(before).filter(key => !(key in after))));
+    }
+
+    if (next.completedChapters !== undefined) {
+        const before = new Set(previous.completedChapters || []);
+        const after = new Set(next.completedChapters);
+        writes.push(recordProgress(userId, [...after].filter(k => !before.has(k)), 'completed'));
+        writes.push(recordProgress(userId, [...before].filter(k => !after.has(k)), 'reset'));
+    }
+
+    if (next.cachedContent !== undefined) {
+        const before = previous.cachedContent || {};
+        const after = next.cachedContent;
+        const changed = Object.fromEntries(Object.entries(after).filter(([key, content]) => JSON.stringify(before[key]) !== JSON.stringify(content)));
+        writes.push(updateCachedContent(userId, changed, Object.keys(before).filter(key => !(key in after))));
+    }
+
+    return writes;
+};
+
+
+/**
+ * Retrieves the current user's profile from the 'profiles' table.
+ * Includes a retry mechanism to handle potential race conditions during registration
+ * where the profile creation trigger might be slightly delayed.
+ */
+export async function getUserData(id: string): Promise<UserData | null> {
+    const supabase = requireSupabase();
+    console.log('[getUserData] START', { id });
+    // Debug: show supabase client instance and current session
+    console.log('[getUserData] Supabase client instance:', supabase);
+    try {
+        console.log('[getUserData] Before supabase.auth.getSession');
+        const sessionResult = await supabase.auth.getSession();
+        console.log('[getUserData] After supabase.auth.getSession:', sessionResult);
+    } catch (err) {
+        console.error('[getUserData] Error in supabase.auth.getSession:', err);
+    }
+    for (let attempt = 1; attempt <= 3; attempt++) {
+        console.log(`[getUserData] Attempt ${attempt} for user id: ${id}`);
+        let didTimeout = false;
+        const timeout = setTimeout(() => {
+            didTimeout = true;
+            console.error(`[getUserData] Timeout after 2000ms on attempt ${attempt} for user id: ${id}`);
+        }, 2000);
+        try {
+            console.log('[getUserData] Before Supabase profile query');
+            const { data, error } = await supabase
+                .from('profiles')
+                .select(PROFILE_COLUMNS)
+                .eq('id', id)
+                .single();
+            clearTimeout(timeout);
+            console.log('[getUserData] After Supabase profile query:', { data, error });
+            if (error) {
+                console.error('[getUserData] Supabase profile query error:', error);
+            }
+            if (data) {
+                console.log(`[getUserData] Success on attempt ${attempt} for user id: ${id}`);
+                return fromSupabase(data as ProfileRow, await loadUserCollections(id)); // Success!
+            }
+        } catch (err) {
+            clearTimeout(timeout);
+            console.error(`[getUserData] Exception thrown on attempt ${attempt} for user id: ${id}`, err);
+            return null;
+        }
+        clearTimeout(timeout);
+        if (didTimeout) {
+            // Already logged timeout
+            return null;
+        }
+        // PGRST116: "Exactly one row expected, but 0 rows returned". This is fine, it means the profile doesn't exist yet.
+        if (error && error.code !== 'PGRST116') {
+            console.error(`Error fetching user profile (attempt ${attempt}): ${error.message}`, error);
+            return null; // Don't retry on a hard error
+        }
+        if (data) {
+            console.log(`[getUserData] Success on attempt ${attempt} for user id: ${id}`);
+            return fromSupabase(data as ProfileRow, await loadUserCollections(id)); // Success!
+        }
+        // If no data (profile not found yet), wait and retry (except on the last attempt)
+        if (attempt < 3) {
+            await delay(attempt * 500); // Wait 500ms, then 1000ms
+        }
+    }
+    // All retries failed
+    console.warn(`Could not find user profile for id: ${id} after 3 attempts.`);
+    return null;
+}
+
+
+/**
+ * Saves changed user data. Profile fields are written to the 'profiles' row; notes, bookmarks,
+ * highlights, progress and cached content are diffed against `previous` so only the affected rows are written.
+ * Without a previous snapshot every given item is upserted and nothing is deleted.
+ * @returns The profile's new `updated_at`, or null if only cached content changed.
+ * @throws If any write fails, after logging it.
+ */
+export async function updateUserData(id: string, data: Partial<UserData>, previous: Partial<UserData> | null = null): Promise<string | null> {
+    const supabase = requireSupabase();
+    const { notes, bookmarks, highlights, completedChapters, cachedContent, ...profileData } = data;
+    const writes = syncCollections(id, { notes, bookmarks, highlights, completedChapters, cachedContent }, previous || {});
+
+    // The profile's updated_at is bumped on every change to the user's own data so other devices can
+    // tell it moved on. Cached content is disposable and doesn't count.
+    const updateData = toSupabase(profileData);
+    const touchesProfile = Object.keys(updateData).length > 0 || notes !== undefined || bookmarks !== undefined || highlights !== undefined || completedChapters !== undefined;
+    const updatedAt = touchesProfile ? new Date().toISOString() : null;
+    if (updatedAt) {
+        writes.push((async () => {
+            const { error } = await supabase
+                .from('profiles')
+                .update({ ...updateData, updated_at: updatedAt })
+                .eq('id', id);
+            throwIfFailed('Error updating user data', [{ error }]);
+        })());
+    }
+
+    await Promise.all(writes);
+    return updatedAt;
+}
+
+/**
+ * Reads only the profile's `updated_at`, a cheap way to tell whether another device has saved changes.
+ * @throws If the profile cannot be read.
+ */
+export async function getProfileUpdatedAt(id: string): Promise<string | null> {
+    const supabase = requireSupabase();
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('updated_at')
+        .eq('id', id)
+        .single();
+    throwIfFailed('Error checking for remote changes', [{ error }]);
+    return (data as Pick<ProfileRow, 'updated_at'> | null)?.updated_at ?? null;
+}
+
+/**
+ * Creates a profile for a user who exists in auth but not in the public.profiles table.
+ * This acts as a fallback for the database trigger.
+ */
+export async function createProfileForUser(id: string, username: string | undefined | null): Promise<UserData | null> {
+    const supabase = requireSupabase();
+    const baseUsername = (username && username.trim().length >= 3) 
+        ? username.trim() 
+        : `user_${id.substring(0, 8)}`;
+
+    const profileToInsert = {
+        id: id,
+        username: baseUsername,
+        study_mode: StudyMode.READ_THROUGH,
+        read_through_index: 0,
+        translation: 'web' as const,
+    };
+
+    let { data, error } = await supabase
+        .from('profiles')
+        .insert(profileToInsert)
+        .select(PROFILE_COLUMNS)
+        .single();
+    
+    // If the insert failed because the username is already taken...
+    if (error && error.code === '23505' && error.message.includes('profiles_username_key')) {
+        console.warn(`Username "${baseUsername}" is taken. Trying a fallback.`);
+        const fallbackUsername = `${baseUsername}_${Math.random().toString(36).substring(2, 6)}`;
+        
+        const retryResult = await supabase
+            .from('profiles')
+            .insert({ ...profileToInsert, username: fallbackUsername })
+            .select(PROFILE_COLUMNS)
+            .single();
+        
+        data = retryResult.data;
+        error = retryResult.error;
+    }
+
+    if (error) {
+        if (error.code === '23505') { 
+            console.warn("Profile creation failed, likely because it already exists. Fetching profile.");
+            return getUserData(id);
+        }
+        console.error(`Failed to create user profile after retries: ${error.message}`, error);
+        return null;
+    }
+
+    if (data) {
+        console.log(`Successfully created and healed profile for user ${id} with username "${(data as ProfileRow).username}".`);
+        // A brand-new profile has no notes, bookmarks, highlights, progress or cached content yet.
+        return fromSupabase(data as ProfileRow, EMPTY_COLLECTIONS);
+    }
+    
+    return null;
+}
+
+const chatThreadFromRow = (row: Omit<ChatThreadRow, 'user_id'>): ChatThread => ({
+    id: row.id,
+    title: row.title,
+    chapterKey: row.chapter_key,
+    messages: normalizeChatMessages(row.messages),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+export async function listChatThreads(id: string): Promise<ChatThread[]> {
+    const supabase = requireSupabase();
+    const result = await supabase.from('chat_threads').select(CHAT_THREAD_COLUMNS).eq('user_id', id);
+    throwIfFailed('Error loading chat threads', [result]);
+    return sortChatThreads((result.data || []).map(chatThreadFromRow));
+}
+
+export async function saveChatThread(id: string, thread: ChatThread): Promise<void> {
+    const supabase = requireSupabase();
+    const result = await supabase.from('chat_threads').upsert({
+        user_id: id,
+        id: thread.id,
+        chapter_key: thread.chapterKey,
+        title: thread.title,
+        messages: thread.messages as unknown as Json,
+        created_at: thread.createdAt,
+        updated_at: thread.updatedAt,
+    }, { onConflict: 'user_id,id' });
+    throwIfFailed('Error saving chat thread', [result]);
+}
+
+export async function deleteChatThread(id: string, threadId: string): Promise<void> {
+    const supabase = requireSupabase();
+    const result = await supabase.from('chat_threads').delete().eq('user_id', id).eq('id', threadId);
+    throwIfFailed('Error deleting chat thread', [result]);
+}
+
+export const supabaseUserDataStore: UserDataStore = {
+    id: 'supabase',
+    getUserData,
+    updateUserData,
+    getProfileUpdatedAt,
+    createProfileForUser,
+    listChatThreads,
+    saveChatThread,
+    deleteChatThread,
+};
@@ -0,0 +1,330 @@
+import { UserData, StudyNote } from '../types.ts';
+import { getUserData, getProfileUpdatedAt, updateUserData } from './authService.ts';
+import { createNoteId } from '../utils/notes.ts';
+import { robustSafeParse } from '../utils/cache.ts';
+
+/**
+ * A change made on this device that has not reached the server yet.
+ * `base` holds the values the changed fields had before the change, for three-way merging.
+ */
+export interface PendingChange {
+    id: string;
+    data: Partial<UserData>;
+    base: Partial<UserData>;
+    createdAt: string;
+}
+
+interface LocalUserState {
+    // User data as this device last saw it, including pending changes. Cached chapter content
+    // is left out: it can be refetched and would quickly fill localStorage.
+    snapshot: Omit<UserData, 'cachedContent'> | null;
+    // The profile's `updated_at` when this device last synced. A different value on the server
+    // means another device saved in the meantime.
+    remoteUpdatedAt: string | null;
+    outbox: PendingChange[];
+}
+
+/**
+ * A note edited both here and on another device since the last sync.
+ * `local` or `remote` is null when that side deleted the note.
+ */
+export interface NoteConflict {
+    chapterKey: string;
+    noteId: string;
+    local: StudyNote | null;
+    remote: StudyNote | null;
+}
+
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+export type ConflictResolver = (conflicts: NoteConflict[]) => Promise<ConflictChoice[]>;
+
+export type SyncResult =
+    | { status: 'idle' }
+    | { status: 'offline' }
+    | { status: 'synced'; user: UserData | null }
+    | { status: 'failed'; error: unknown };
+
+const EMPTY_STATE: LocalUserState = { snapshot: null, remoteUpdatedAt: null, outbox: [] };
+
+// Changes currently being written; they must not be merged with newer changes.
+const syncingChangeIds = new Set<string>();
+let activeSync: Promise<SyncResult> | null = null;
+
+const storageKey = (userId: string) => `userDataSync-${userId}`;
+
+const loadState = (userId: string): LocalUserState => {
+    const state = robustSafeParse<LocalUserState>(storageKey(userId), EMPTY_STATE);
+    return {
+        snapshot: state?.snapshot ?? null,
+        remoteUpdatedAt: state?.remoteUpdatedAt ?? null,
+        // RADICALLY DEFENSIVE: a malformed outbox must not break every later write.
+        outbox: Array.isArray(state?.outbox) ? state.outbox : [],
+    };
+};
+
+const saveState = (userId: string, state: LocalUserState) => {
+    try {
+        localStorage.setItem(storageKey(userId), JSON.stringify(state));
+    } catch (error) {
+        console.error('[syncService] Could not store user data locally:', error);
+    }
+};
+
+const withoutCachedContent = (user: UserData): Omit<UserData, 'cachedContent'> => {
+    const { cachedContent, ...rest } = user;
+    return rest;
+};
+
+/**
+ * Returns the user data saved on this device, if any, for starting up without a connection.
+ */
+export function getLocalUserData(userId: string): UserData | null {
+    const { snapshot } = loadState(userId);
+    return snapshot && snapshot.id === userId ? { ...snapshot, cachedContent: {} } : null;
+}
+
+/**
+ * Forgets the user data saved on this device. Kept if changes are still waiting to sync.
+ */
+export function clearLocalUserData(userId: string): void {
+    if (loadState(userId).outbox.length === 0) localStorage.removeItem(storageKey(userId));
+}
+
+/**
+ * Number of changes waiting to be sent to the server.
+ */
+export function getPendingChangeCount(userId: string): number {
+    return loadState(userId).outbox.length;
+}
+
+/**
+ * Records user data freshly loaded from the server. Pending changes are applied on top so the
+ * returned data reflects everything done on this device.
+ */
+export function rememberServerUserData(user: UserData): UserData {
+    const state = loadState(user.id);
+    const pending = coalesceChanges(state.outbox);
+    const merged = pending ? { ...user, ...pending.data } : user;
+    saveState(user.id, {
+        snapshot: withoutCachedContent(merged),
+        // With pending changes, keep the version they were based on so they are merged, not overwritten.
+        remoteUpdatedAt: state.outbox.length > 0 ? state.remoteUpdatedAt : user.updated_at ?? null,
+        outbox: state.outbox,
+    });
+    return merged;
+}
+
+/**
+ * Saves a change locally and adds it to the outbox. Call `syncPendingChanges` to send it.
+ * @param previous - The user data before the change.
+ */
+export function queueUserDataChange(previous: UserData, data: Partial<UserData>): void {
+    const state = loadState(previous.id);
+    const base = Object.fromEntries(
+        Object.keys(data).map(key => [key, previous[key as keyof UserData]])
+    ) as Partial<UserData>;
+
+    const last = state.outbox[state.outbox.length - 1];
+    const outbox = last && !syncingChangeIds.has(last.id)
+        ? [...state.outbox.slice(0, -1), { ...last, data: { ...last.data, ...data }, base: { ...base, ...last.base } }]
+        : [...state.outbox, { id: createNoteId(), data, base, createdAt: new Date().toISOString() }];
+
+    saveState(previous.id, {
+        snapshot: withoutCachedContent({ ...previous, ...data }),
+        remoteUpdatedAt: state.remoteUpdatedAt,
+        outbox,
+    });
+}
+
+const coalesceChanges = (changes: PendingChange[]): Pick<PendingChange, 'data' | 'base'> | null => {
+    if (changes.length === 0) return null;
+    return changes.reduce(
+        (acc, change) => ({ data: { ...acc.data, ...change.data }, base: { ...change.base, ...acc.base } }),
+        { data: {}, base: {} } as Pick<PendingChange, 'data' | 'base'>
+    );
+};
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameNote = (a: StudyNote | null, b: StudyNote | null) => {
+    if (!a || !b) return a === b;
+    return a.content === b.content && a.startVerse === b.startVerse && a.endVerse === b.endVerse;
+};
+
+// Items added locally are added to the remote list and items removed locally are removed,
+// so additions from both devices survive.
+const mergeList = (base: string[] = [], local: string[] = [], remote: string[] = []): string[] => {
+    const added = local.filter(item => !base.includes(item));
+    const removed = new Set(base.filter(item => !local.includes(item)));
+    return [...new Set([...remote, ...added])].filter(item => !removed.has(item));
+};
+
+// Keys changed locally take the local value; everything else keeps the remote value.
+const mergeRecord = <T>(base: Record<string, T> = {}, local: Record<string, T> = {}, remote: Record<string, T> = {}): Record<string, T> => {
+    const merged = { ...remote };
+    new Set([...Object.keys(base), ...Object.keys(local)]).forEach(key => {
+        if (sameJson(base[key], local[key])) return;
+        if (key in local) merged[key] = local[key];
+        else delete merged[key];
+    });
+    return merged;
+};
+
+const indexNotes = (notes: Record<string, StudyNote[]> = {}) => {
+    const index = new Map<string, { chapterKey: string; note: StudyNote }>();
+    Object.entries(notes).forEach(([chapterKey, chapterNotes]) => {
+        (chapterNotes || []).forEach(note => index.set(note.id, { chapterKey, note }));
+    });
+    return index;
+};
+
+const groupNotes = (index: Map<string, { chapterKey: string; note: StudyNote }>) => {
+    const notes: Record<string, StudyNote[]> = {};
+    index.forEach(({ chapterKey, note }) => {
+        (notes[chapterKey] = notes[chapterKey] || []).push(note);
+    });
+    return notes;
+};
+
+/**
+ * Merges notes note-by-note. A note changed only on one side takes that side's version;
+ * a note changed differently on both sides is reported as a conflict and keeps the remote version.
+ */
+const mergeNotes = (base: Record<string, StudyNote[]> = {}, local: Record<string, StudyNote[]> = {}, remote: Record<string, StudyNote[]> = {}) => {
+    const baseIndex = indexNotes(base);
+    const localIndex = indexNotes(local);
+    const merged = indexNotes(remote);
+    const conflicts: NoteConflict[] = [];
+
+    new Set([...baseIndex.keys(), ...localIndex.keys()]).forEach(noteId => {
+        const baseNote = baseIndex.get(noteId)?.note ?? null;
+        const localEntry = localIndex.get(noteId) ?? null;
+        const remoteEntry = merged.get(noteId) ?? null;
+        const localNote = localEntry?.note ?? null;
+        const remoteNote = remoteEntry?.note ?? null;
+
+        if (sameNote(localNote, baseNote) || sameNote(localNote, remoteNote)) return;
+        if (sameNote(remoteNote, baseNote)) {
+            if (localEntry) merged.set(noteId, localEntry);
+            else merged.delete(noteId);
+            return;
+        }
+        conflicts.push({
+            chapterKey: localEntry?.chapterKey ?? remoteEntry!.chapterKey,
+            noteId,
+            local: localNote,
+            remote: remoteNote,
+        });
+    });
+
+    return { notes: merged, conflicts };
+};
+
+const applyConflictChoices = (
+    notes: Map<string, { chapterKey: string; note: StudyNote }>,
+    conflicts: NoteConflict[],
+    choices: ConflictChoice[]
+) => {
+    conflicts.forEach((conflict, i) => {
+        const choice = choices[i] ?? 'remote';
+        if (choice === 'remote') return;
+        if (!conflict.local) {
+            // Deleted here, edited elsewhere, and the user chose the deletion.
+            notes.delete(conflict.noteId);
+            return;
+        }
+        if (choice === 'local' || !conflict.remote) {
+            notes.set(conflict.noteId, { chapterKey: conflict.chapterKey, note: conflict.local });
+            return;
+        }
+        // Keep both: the remote note stays and this device's version is saved as a copy.
+        const copy = { ...conflict.local, id: createNoteId(), updatedAt: new Date().toISOString() };
+        notes.set(copy.id, { chapterKey: conflict.chapterKey, note: copy });
+    });
+};
+
+/**
+ * Merges this device's pending changes into the latest server data, field by field.
+ * Bookmarks and completed chapters combine both sides; notes, highlights and cached content merge
+ * per item; other settings take this device's value.
+ */
+const mergeWithRemote = async (
+    pending: Pick<PendingChange, 'data' | 'base'>,
+    remote: UserData,
+    resolveConflicts: ConflictResolver
+): Promise<Partial<UserData>> => {
+    const { data, base } = pending;
+    const changes: Partial<UserData> = { ...data };
+
+    if (data.bookmarks) changes.bookmarks = mergeList(base.bookmarks, data.bookmarks, remote.bookmarks);
+    if (data.completedChapters) changes.completedChapters = mergeList(base.completedChapters, data.completedChapters, remote.completedChapters);
+    if (data.highlights) changes.highlights = mergeRecord(base.highlights, data.highlights, remote.highlights);
+    if (data.cachedContent) changes.cachedContent = mergeRecord(base.cachedContent, data.cachedContent, remote.cachedContent);
+    if (data.notes) {
+        const { notes, conflicts } = mergeNotes(base.notes, data.notes, remote.notes);
+        if (conflicts.length > 0) {
+            applyConflictChoices(notes, conflicts, await resolveConflicts(conflicts));
+        }
+        changes.notes = groupNotes(notes);
+    }
+    return changes;
+};
+
+const runSync = async (userId: string, resolveConflicts: ConflictResolver): Promise<SyncResult> => {
+    const state = loadState(userId);
+    if (state.outbox.length === 0) return { status: 'idle' };
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return { status: 'offline' };
+
+    const sending = state.outbox;
+    const pending = coalesceChanges(sending)!;
+    sending.forEach(change => syncingChangeIds.add(change.id));
+
+    try {
+        const remoteUpdatedAt = await getProfileUpdatedAt(userId);
+        let updatedAt: string | null;
+        let user: UserData | null = null;
+
+        if (remoteUpdatedAt === state.remoteUpdatedAt) {
+            updatedAt = await updateUserData(userId, pending.data, pending.base);
+        } else {
+            // Another device saved since our last sync: merge against what it wrote.
+            const remote = await getUserData(userId);
+            if (!remote) throw new Error('Could not load your latest data to merge changes.');
+            const changes = await mergeWithRemote(pending, remote, resolveConflicts);
+            updatedAt = await updateUserData(userId, changes, remote);
+            user = { ...remote, ...changes };
+        }
+
+        // Changes queued while this sync ran stay in the outbox for the next one.
+        const latest = loadState(userId);
+        const sentIds = new Set(sending.map(change => change.id));
+        const outbox = latest.outbox.filter(change => !sentIds.has(change.id));
+        const snapshot = user ? withoutCachedContent({ ...user, ...coalesceChanges(outbox)?.data }) : latest.snapshot;
+        saveState(userId, { snapshot, remoteUpdatedAt: updatedAt ?? remoteUpdatedAt, outbox });
+        return { status: 'synced', user };
+    } catch (error) {
+        console.error('[syncService] Sync failed; changes stay queued:', error);
+        return { status: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'failed', error };
+    } finally {
+        sending.forEach(change => syncingChangeIds.delete(change.id));
+    }
+};
+
+/**
+ * Sends queued changes to the server. Only one sync runs at a time; a call made while one is
+ * running waits for it and then syncs anything queued since.
+ * @returns The outcome, including the merged user data when changes from another device were merged in.
+ */
+export async function syncPendingChanges(userId: string, resolveConflicts: ConflictResolver): Promise<SyncResult> {
+    while (activeSync) {
+        await activeSync.catch(() => undefined);
+    }
+    const current = runSync(userId, resolveConflicts);
+    activeSync = current;
+    try {
+        return await current;
+    } finally {
+        if (activeSync === current) activeSync = null;
+    }
+}
@@ -0,0 +1,39 @@
+import { UserData, ChatThread } from '../types.ts';
+import { supabaseUserDataStore } from './supabaseUserDataStore.ts';
+import { localUserDataStore, isLocalUserId } from './localUserDataStore.ts';
+
+export type UserDataStoreId = 'supabase' | 'local';
+
+/**
+ * Where a user's profile and study data are kept. Accounts live in Supabase; guests
+ * studying without an account keep everything on this device. `authService` picks
+ * the store from the user id, so the rest of the app never talks to one directly.
+ */
+export interface UserDataStore {
+    id: UserDataStoreId;
+    getUserData(id: string): Promise<UserData | null>;
+    /**
+     * Saves changed fields, diffing collections against `previous` where the store writes per item.
+     * @returns The profile's new `updated_at`, or null if only cached content changed.
+     */
+    updateUserData(id: string, data: Partial<UserData>, previous?: Partial<UserData> | null): Promise<string | null>;
+    getProfileUpdatedAt(id: string): Promise<string | null>;
+    createProfileForUser(id: string, username: string | undefined | null): Promise<UserData | null>;
+    // Chat threads are loaded and saved on their own rather than with UserData: they can be
+    // long, and are only needed when the chat is opened.
+    listChatThreads(id: string): Promise<ChatThread[]>;
+    saveChatThread(id: string, thread: ChatThread): Promise<void>;
+    deleteChatThread(id: string, threadId: string): Promise<void>;
+}
+
+export const USER_DATA_STORES: Record<UserDataStoreId, UserDataStore> = {
+    supabase: supabaseUserDataStore,
+    local: localUserDataStore,
+};
+
+/**
+ * Returns the store holding a user's data: local for guest ids, Supabase otherwise.
+ */
+export function getUserDataStore(userId: string): UserDataStore {
+    return USER_DATA_STORES[isLocalUserId(userId) ? 'local' : 'supabase'];
+}
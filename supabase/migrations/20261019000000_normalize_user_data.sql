@@ -0,0 +1,102 @@
+-- Moves notes, bookmarks, reading progress and cached AI content out of the JSON columns on
+-- public.profiles into their own tables, so a small change no longer rewrites the whole profile.
+-- The old columns are left in place (the app no longer reads them) and can be dropped once
+-- the copied data has been checked.
+
+create table if not exists public.notes (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    id text not null,
+    chapter_key text not null,
+    start_verse integer,
+    end_verse integer,
+    content text not null default '',
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (user_id, id)
+);
+
+create index if not exists notes_user_chapter_idx on public.notes (user_id, chapter_key);
+
+create table if not exists public.bookmarks (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    chapter_key text not null,
+    created_at timestamptz not null default now(),
+    primary key (user_id, chapter_key)
+);
+
+create table if not exists public.progress_events (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    chapter_key text not null,
+    event text not null check (event in ('completed', 'reset')),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists progress_events_user_idx on public.progress_events (user_id, id);
+
+create table if not exists public.cached_content (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    cache_key text not null,
+    content jsonb not null,
+    updated_at timestamptz not null default now(),
+    primary key (user_id, cache_key)
+);
+
+alter table public.notes enable row level security;
+alter table public.bookmarks enable row level security;
+alter table public.progress_events enable row level security;
+alter table public.cached_content enable row level security;
+
+create policy "Users manage their own notes" on public.notes
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own bookmarks" on public.bookmarks
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own progress" on public.progress_events
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own cached content" on public.cached_content
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- One-time copy of the existing JSON data.
+
+-- Notes written before verse-anchored notes are a single string per chapter; they become
+-- chapter-level notes with the same id the app gives them when migrating on read.
+insert into public.notes (user_id, id, chapter_key, content, created_at, updated_at)
+select p.id, 'legacy-' || n.key, n.key, n.value #>> '{}', coalesce(p.updated_at, now()), coalesce(p.updated_at, now())
+from public.profiles p
+cross join lateral jsonb_each(case when jsonb_typeof(p.notes) = 'object' then p.notes else '{}'::jsonb end) n
+where jsonb_typeof(n.value) = 'string' and btrim(n.value #>> '{}') <> ''
+on conflict do nothing;
+
+insert into public.notes (user_id, id, chapter_key, start_verse, end_verse, content, created_at, updated_at)
+select
+    p.id,
+    note ->> 'id',
+    n.key,
+    (note ->> 'startVerse')::integer,
+    (note ->> 'endVerse')::integer,
+    note ->> 'content',
+    coalesce((note ->> 'createdAt')::timestamptz, p.updated_at, now()),
+    coalesce((note ->> 'updatedAt')::timestamptz, p.updated_at, now())
+from public.profiles p
+cross join lateral jsonb_each(case when jsonb_typeof(p.notes) = 'object' then p.notes else '{}'::jsonb end) n
+cross join lateral jsonb_array_elements(case when jsonb_typeof(n.value) = 'array' then n.value else '[]'::jsonb end) note
+where jsonb_typeof(note -> 'id') = 'string' and jsonb_typeof(note -> 'content') = 'string'
+on conflict do nothing;
+
+insert into public.bookmarks (user_id, chapter_key, created_at)
+select p.id, b.chapter_key, coalesce(p.updated_at, now())
+from public.profiles p
+cross join lateral unnest(coalesce(p.bookmarks, '{}')) as b (chapter_key)
+on conflict do nothing;
+
+insert into public.progress_events (user_id, chapter_key, event, created_at)
+select p.id, c.chapter_key, 'completed', coalesce(p.updated_at, now())
+from public.profiles p
+cross join lateral unnest(coalesce(p.completed_chapters, '{}')) with ordinality as c (chapter_key, position)
+order by p.id, c.position;
+
+insert into public.cached_content (user_id, cache_key, content, updated_at)
+select p.id, c.key, c.value, coalesce(p.updated_at, now())
+from public.profiles p
+cross join lateral jsonb_each(case when jsonb_typeof(p.cached_content) = 'object' then p.cached_content else '{}'::jsonb end) c
+on conflict do nothing;
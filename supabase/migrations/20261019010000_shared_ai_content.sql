@@ -0,0 +1,56 @@
+-- Shares generated study content (deep dives and enrichments) between users, so each chapter is
+-- generated once per prompt version and model instead of once per user. Users' cached_content
+-- rows now refer to it by id (deepDiveId / enrichmentsId) instead of holding a copy.
+
+create table if not exists public.ai_content (
+    -- "<chapter key>|<kind>|v<prompt version>|<model>", e.g. "Genesis-1|deepDive|v1|gemini-2.5-flash".
+    id text primary key,
+    chapter_key text not null,
+    kind text not null check (kind in ('deepDive', 'enrichments')),
+    prompt_version integer not null,
+    model text not null,
+    content jsonb not null,
+    created_at timestamptz not null default now(),
+    unique (chapter_key, kind, prompt_version, model)
+);
+
+alter table public.ai_content enable row level security;
+
+-- Anyone may read shared content, including guests. Signed-in users may add entries but not
+-- change or remove existing ones; the app validates entries when reading them.
+create policy "Anyone can read shared AI content" on public.ai_content
+    for select to anon, authenticated using (true);
+create policy "Signed-in users can add shared AI content" on public.ai_content
+    for insert to authenticated with check (true);
+
+-- One-time move of the content users already have cached. It was all generated with the
+-- first prompt version on gemini-2.5-flash. Cache keys are "<chapter key>-<translation>".
+
+insert into public.ai_content (id, chapter_key, kind, prompt_version, model, content)
+select distinct on (chapter_key) chapter_key || '|deepDive|v1|gemini-2.5-flash', chapter_key, 'deepDive', 1, 'gemini-2.5-flash', content -> 'deepDiveData'
+from (
+    select regexp_replace(cache_key, '-[a-z]+$', '') as chapter_key, content, updated_at
+    from public.cached_content
+    where jsonb_typeof(content -> 'deepDiveData') = 'object'
+) c
+order by chapter_key, updated_at desc
+on conflict do nothing;
+
+insert into public.ai_content (id, chapter_key, kind, prompt_version, model, content)
+select distinct on (chapter_key) chapter_key || '|enrichments|v1|gemini-2.5-flash', chapter_key, 'enrichments', 1, 'gemini-2.5-flash', content -> 'allEnrichmentData'
+from (
+    select regexp_replace(cache_key, '-[a-z]+$', '') as chapter_key, content, updated_at
+    from public.cached_content
+    where jsonb_typeof(content -> 'allEnrichmentData') = 'object'
+) c
+order by chapter_key, updated_at desc
+on conflict do nothing;
+
+update public.cached_content
+set content = jsonb_build_object(
+    'verses', content -> 'verses',
+    'deepDiveId', regexp_replace(cache_key, '-[a-z]+$', '') || '|deepDive|v1|gemini-2.5-flash',
+    'enrichmentsId', regexp_replace(cache_key, '-[a-z]+$', '') || '|enrichments|v1|gemini-2.5-flash'
+)
+where jsonb_typeof(content -> 'deepDiveData') = 'object'
+  and jsonb_typeof(content -> 'allEnrichmentData') = 'object';
@@ -0,0 +1,10 @@
+-- Study content now quotes the chapter in the user's translation, so shared entries are keyed by
+-- translation too. Entries generated before this have no translation; they stay readable by id
+-- for the users' cached chapters that refer to them.
+
+alter table public.ai_content add column if not exists translation text;
+
+alter table public.ai_content drop constraint if exists ai_content_chapter_key_kind_prompt_version_model_key;
+alter table public.ai_content
+    add constraint ai_content_chapter_translation_kind_version_model_key
+    unique (chapter_key, translation, kind, prompt_version, model);
@@ -0,0 +1,21 @@
+-- Saved conversations with the study assistant, so they survive chapter changes and reloads and
+-- can be resumed later. Messages are stored with the thread; threads without a chapter_key are
+-- free-standing.
+
+create table if not exists public.chat_threads (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    id text not null,
+    chapter_key text,
+    title text not null default '',
+    messages jsonb not null default '[]'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (user_id, id)
+);
+
+create index if not exists chat_threads_user_updated_idx on public.chat_threads (user_id, updated_at desc);
+
+alter table public.chat_threads enable row level security;
+
+create policy "Users manage their own chat threads" on public.chat_threads
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
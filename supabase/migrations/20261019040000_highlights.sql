@@ -0,0 +1,15 @@
+-- Verse highlights, one row per highlighted verse. Verse keys are translation-independent
+-- (e.g. "John-3:16", see toVerseKey), so a highlight shows in every translation.
+
+create table if not exists public.highlights (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    verse_key text not null,
+    category text not null check (category in ('promise', 'command', 'question', 'insight', 'prayer')),
+    created_at timestamptz not null default now(),
+    primary key (user_id, verse_key)
+);
+
+alter table public.highlights enable row level security;
+
+create policy "Users manage their own highlights" on public.highlights
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,83 @@
+-- Shared AI content is served to every user, so clients can no longer write it directly.
+-- Signed-in users share what they generated through share_ai_content(), which checks the key
+-- and content, records who shared it and limits how much one account can share. Moderators
+-- (listed in ai_content_moderators) can replace or remove bad entries; a removed entry is
+-- generated afresh the next time someone studies that chapter.
+
+alter table public.ai_content add column if not exists created_by uuid references auth.users (id) on delete set null;
+
+create index if not exists ai_content_created_by_idx on public.ai_content (created_by, created_at);
+
+drop policy if exists "Signed-in users can add shared AI content" on public.ai_content;
+
+-- Managed from the SQL editor or with the service role; clients can't read or change it.
+create table if not exists public.ai_content_moderators (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+alter table public.ai_content_moderators enable row level security;
+
+create or replace function public.is_ai_content_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.ai_content_moderators where user_id = auth.uid());
+$$;
+
+create policy "Moderators can replace shared AI content" on public.ai_content
+    for update to authenticated using (public.is_ai_content_moderator()) with check (public.is_ai_content_moderator());
+create policy "Moderators can remove shared AI content" on public.ai_content
+    for delete to authenticated using (public.is_ai_content_moderator());
+
+-- Adds an entry unless one exists for the same key, and returns the entry's id either way.
+-- The id is built here from the key, so an entry can't be filed under another chapter's id.
+create or replace function public.share_ai_content(
+    p_chapter_key text,
+    p_translation text,
+    p_kind text,
+    p_prompt_version integer,
+    p_model text,
+    p_content jsonb
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    entry_id text := p_chapter_key || '|' || p_translation || '|' || p_kind || '|v' || p_prompt_version || '|' || p_model;
+begin
+    if auth.uid() is null then
+        raise exception 'Only signed-in users can share AI content.' using errcode = '42501';
+    end if;
+    if p_chapter_key !~ '^[0-9A-Za-z_]+-[0-9]+$'
+        or p_translation !~ '^[a-z]+$'
+        or p_kind not in ('deepDive', 'enrichments')
+        or p_prompt_version is null or p_prompt_version < 1
+        or p_model !~ '^[A-Za-z0-9._:/-]{1,100}$' then
+        raise exception 'Invalid shared AI content key "%".', entry_id using errcode = '22023';
+    end if;
+    if jsonb_typeof(p_content) is distinct from 'object' or pg_column_size(p_content) > 262144 then
+        raise exception 'Shared AI content must be a JSON object of at most 256 kB.' using errcode = '22023';
+    end if;
+    if (select count(*) from public.ai_content
+        where created_by = auth.uid() and created_at > now() - interval '1 day') >= 200 then
+        raise exception 'Too much AI content shared from this account today.' using errcode = '54000';
+    end if;
+
+    insert into public.ai_content (id, chapter_key, translation, kind, prompt_version, model, content, created_by)
+    values (entry_id, p_chapter_key, p_translation, p_kind, p_prompt_version, p_model, p_content, auth.uid())
+    on conflict do nothing;
+
+    return entry_id;
+end;
+$$;
+
+revoke all on function public.share_ai_content(text, text, text, integer, text, jsonb) from public, anon;
+grant execute on function public.share_ai_content(text, text, text, integer, text, jsonb) to authenticated;
+revoke all on function public.is_ai_content_moderator() from public, anon;
+grant execute on function public.is_ai_content_moderator() to authenticated;
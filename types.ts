@@ -2,6 +2,7 @@ import { BookName, ChapterIdentifier } from './constants.ts';
 export type { BookName, ChapterIdentifier };
 
 export interface Book {
+  id: string; // USFM-style book code, e.g. 'GEN' or '1CO'
   name: BookName;
   chapters: number;
   testament: 'Old' | 'New';
@@ -14,12 +15,43 @@ export const AVAILABLE_TRANSLATIONS = {
 
 export type TranslationKey = keyof typeof AVAILABLE_TRANSLATIONS;
 
+export const HIGHLIGHT_CATEGORIES = {
+  promise: 'Promise',
+  command: 'Command',
+  question: 'Question',
+  insight: 'Insight',
+  prayer: 'Prayer',
+} as const;
+
+export type HighlightCategory = keyof typeof HIGHLIGHT_CATEGORIES;
+
 export enum StudyMode {
   RANDOM = 'Random Chapter',
   BOOK = 'Book Study',
   READ_THROUGH = 'Read Through',
   BOOKMARKS = 'Bookmarks',
+  HIGHLIGHTS = 'Highlights',
+  NOTES = 'Notes',
   SCRIPTURE_READER = 'Scripture Reader',
+  SEARCH = 'Search',
+}
+
+export interface VerseLocation extends ChapterIdentifier {
+    verse?: number; // Omitted for whole-chapter locations.
+}
+
+/**
+ * A contiguous span of scripture within one book. A range without verses covers whole
+ * chapters, e.g. { start: { book: 'John', chapter: 3 }, end: { book: 'John', chapter: 4 } }.
+ */
+export interface ReferenceRange {
+    start: VerseLocation;
+    end: VerseLocation;
+}
+
+export interface ParsedReference {
+    ranges: ReferenceRange[];
+    canonical: string;
 }
 
 export interface Verse {
@@ -30,6 +62,16 @@ export interface Verse {
     text: string;
 }
 
+/**
+ * A chapter as the user reads it, which AI study content is generated for.
+ */
+export interface StudyPassage {
+    identifier: ChapterIdentifier;
+    translation: TranslationKey;
+    // The chapter's text in that translation; empty if it couldn't be loaded.
+    verses: Verse[];
+}
+
 export interface Passage {
     reference: string;
     verses: Verse[];
@@ -39,10 +81,40 @@ export interface Passage {
     translation_note: string;
 }
 
+/**
+ * What a piece of AI content was generated with, so it can be refreshed when the prompt changes.
+ */
+export interface AiContentSource {
+    promptVersion: number;
+    model: string;
+}
+
 export interface CachedChapterContent {
     verses: Verse[];
-    deepDiveData: DeepDiveData | null;
-    allEnrichmentData: AllEnrichmentData;
+    // Ids of the AI content in the shared cache (see aiContentCache).
+    deepDiveId?: string;
+    enrichmentsId?: string;
+    // AI content that isn't in the shared cache (e.g. for guests, or cached before it existed) is kept inline.
+    deepDiveData?: DeepDiveData | null;
+    allEnrichmentData?: AllEnrichmentData;
+    // Missing for content cached before prompts were versioned.
+    deepDiveSource?: AiContentSource;
+    enrichmentsSource?: AiContentSource;
+}
+
+export interface VerseHighlight {
+  category: HighlightCategory;
+  createdAt: string;
+}
+
+export interface StudyNote {
+  id: string;
+  // Verse anchor; both are omitted for the chapter-level note.
+  startVerse?: number;
+  endVerse?: number;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface UserData {
@@ -53,7 +125,10 @@ export interface UserData {
   userSelectedChapter: ChapterIdentifier | null;
   completedChapters: string[];
   bookmarks: string[];
-  notes: Record<string, string>;
+  // Keyed by chapter key (see toChapterKey).
+  notes: Record<string, StudyNote[]>;
+  // Keyed by verse key (see toVerseKey), so highlights apply to every translation.
+  highlights: Record<string, VerseHighlight>;
   cachedContent: Record<string, CachedChapterContent>;
   translation: TranslationKey;
   updated_at?: string;
@@ -72,6 +147,8 @@ export interface WordStudy {
   meaning: string;
   contextualUse: string;
   verse?: number;
+  // How translations differ in rendering the word, when the study hinges on it.
+  translationNote?: string;
 }
 
 export interface HistoricalContext {
@@ -118,7 +195,44 @@ export enum EnrichmentType {
   Interpretations = 'Interpretive Contrasts',
 }
 
+/**
+ * Result of checking a scripture reference cited by the AI against the real text.
+ * 'invalid' references name a passage that doesn't exist; 'unchecked' ones could not be
+ * checked, e.g. because the text was unavailable offline.
+ */
+export interface CitationCheck {
+    status: 'verified' | 'invalid' | 'unchecked';
+    // Canonical form of the reference, when it parsed.
+    canonical?: string;
+    // Why the reference is invalid or unchecked.
+    reason?: string;
+    // The opening of the cited text, for verified references.
+    text?: string;
+}
+
 export interface ChatMessage {
     role: 'user' | 'model';
     content: string;
+}
+
+/**
+ * A saved conversation with the study assistant. Threads started while studying a chapter are
+ * about that chapter; free-standing threads have no chapter.
+ */
+export interface ChatThread {
+    id: string;
+    title: string;
+    chapterKey: string | null;
+    messages: ChatMessage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A verse range the user chose to ask the study assistant about.
+ */
+export interface VerseQuestion {
+    chapterKey: string;
+    startVerse: number;
+    endVerse: number;
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { ChatMessage, ChatThread } from '../types.ts';
+import { createNoteId } from './notes.ts';
+
+const TITLE_LENGTH = 60;
+
+/**
+ * Starts an unsaved thread, about a chapter or (with no chapter key) free-standing.
+ */
+export function createChatThread(chapterKey: string | null): ChatThread {
+    const now = new Date().toISOString();
+    return { id: createNoteId(), title: '', chapterKey, messages: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Default title for a thread: the start of its first question.
+ */
+export function titleFromMessage(message: string): string {
+    const text = message.trim().replace(/\s+/g, ' ');
+    return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH).trimEnd()}…` : text;
+}
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+    return typeof value === 'object' && value !== null &&
+        'role' in value && (value.role === 'user' || value.role === 'model') &&
+        'content' in value && typeof value.content === 'string';
+};
+
+// A stored thread has at least these; its other fields are checked as they're read.
+interface StoredChatThread {
+    id: string;
+    updatedAt: string;
+    title?: unknown;
+    chapterKey?: unknown;
+    messages?: unknown;
+    createdAt?: unknown;
+}
+
+const isStoredChatThread = (value: unknown): value is StoredChatThread => {
+    return typeof value === 'object' && value !== null &&
+        'id' in value && typeof value.id === 'string' &&
+        'updatedAt' in value && typeof value.updatedAt === 'string';
+};
+
+/**
+ * Reads stored messages, dropping anything malformed.
+ */
+export function normalizeChatMessages(raw: unknown): ChatMessage[] {
+    return Array.isArray(raw) ? raw.filter(isChatMessage).map(({ role, content }) => ({ role, content })) : [];
+}
+
+// Most recently used first.
+export const sortChatThreads = (threads: ChatThread[]) => [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/**
+ * Reads stored threads, dropping anything malformed.
+ */
+export function normalizeChatThreads(raw: unknown): ChatThread[] {
+    if (!Array.isArray(raw)) return [];
+    const threads = raw
+        .filter(isStoredChatThread)
+        .map((value): ChatThread => ({
+            id: value.id,
+            title: typeof value.title === 'string' ? value.title : '',
+            chapterKey: typeof value.chapterKey === 'string' ? value.chapterKey : null,
+            messages: normalizeChatMessages(value.messages),
+            createdAt: typeof value.createdAt === 'string' ? value.createdAt : value.updatedAt,
+            updatedAt: value.updatedAt,
+        }));
+    return sortChatThreads(threads);
+}
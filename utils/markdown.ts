@@ -0,0 +1,107 @@
+import type { MouseEvent } from 'react';
+import { marked } from 'marked';
+import { ParsedReference } from '../types.ts';
+import { findReferences, tryParseReference } from './scriptureReference.ts';
+import { TAG_PATTERN } from './notes.ts';
+import { sanitizeNode } from './sanitizeHtml.ts';
+
+export interface MarkdownOptions {
+    // Turn scripture references into `data-ref` links.
+    linkReferences?: boolean;
+    // Turn #tags into `data-tag` links.
+    linkTags?: boolean;
+    // Render a single line of text (no wrapping paragraph), e.g. a heading or list item.
+    inline?: boolean;
+}
+
+export type MarkdownLinkTarget =
+    | { type: 'reference'; reference: ParsedReference }
+    | { type: 'tag'; tag: string };
+
+interface TextLink {
+    index: number;
+    length: number;
+    element: HTMLAnchorElement;
+}
+
+const SKIPPED_ANCESTORS = new Set(['A', 'CODE', 'PRE']);
+
+const findTextLinks = (doc: Document, text: string, options: MarkdownOptions): TextLink[] => {
+    const links: TextLink[] = [];
+    if (options.linkReferences) {
+        findReferences(text).forEach(match => {
+            const element = doc.createElement('a');
+            element.href = '#';
+            element.dataset.ref = match.reference.canonical;
+            element.className = 'text-blue-600 underline decoration-dotted hover:decoration-solid';
+            element.textContent = match.text;
+            links.push({ index: match.index, length: match.length, element });
+        });
+    }
+    if (options.linkTags) {
+        for (const match of text.matchAll(TAG_PATTERN)) {
+            const index = match.index! + match[1].length;
+            const element = doc.createElement('a');
+            element.href = '#';
+            element.dataset.tag = match[2].toLowerCase();
+            element.className = 'text-amber-700 bg-amber-100 rounded px-1 no-underline';
+            element.textContent = `#${match[2]}`;
+            links.push({ index, length: match[2].length + 1, element });
+        }
+    }
+    // Drop overlaps (a tag inside a reference, say), keeping the earliest link.
+    return links
+        .sort((a, b) => a.index - b.index)
+        .filter((link, i, sorted) => i === 0 || link.index >= sorted[i - 1].index + sorted[i - 1].length);
+};
+
+const linkifyTextNodes = (doc: Document, options: MarkdownOptions) => {
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+    textNodes.forEach(node => {
+        for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+            if (SKIPPED_ANCESTORS.has(parent.tagName)) return;
+        }
+        const text = node.textContent || '';
+        const links = findTextLinks(doc, text, options);
+        if (links.length === 0) return;
+
+        const fragment = doc.createDocumentFragment();
+        let cursor = 0;
+        links.forEach(link => {
+            fragment.append(text.slice(cursor, link.index), link.element);
+            cursor = link.index + link.length;
+        });
+        fragment.append(text.slice(cursor));
+        node.replaceWith(fragment);
+    });
+};
+
+/**
+ * Renders Markdown to HTML, optionally turning scripture references and #tags into links.
+ * Links are identified by `data-ref` / `data-tag`; use `getMarkdownLinkTarget` in a click handler.
+ * The result is sanitized (see `sanitizeNode`), so AI and user text can be rendered with it safely.
+ */
+export function renderMarkdown(content: string, options: MarkdownOptions = {}): string {
+    const html = (options.inline
+        ? marked.parseInline(content || '', { async: false })
+        : marked.parse(content || '', { async: false })) as string;
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    // Before linking, so the links added here keep their attributes.
+    sanitizeNode(doc.body);
+    linkifyTextNodes(doc, options);
+    return doc.body.innerHTML;
+}
+
+/**
+ * Resolves a click inside rendered Markdown to the reference or tag link that was clicked, if any.
+ */
+export function getMarkdownLinkTarget(event: MouseEvent): MarkdownLinkTarget | null {
+    const anchor = (event.target as HTMLElement).closest?.('a[data-ref], a[data-tag]') as HTMLAnchorElement | null;
+    if (!anchor) return null;
+    if (anchor.dataset.tag) return { type: 'tag', tag: anchor.dataset.tag };
+    const reference = anchor.dataset.ref ? tryParseReference(anchor.dataset.ref) : null;
+    return reference ? { type: 'reference', reference } : null;
+}
@@ -0,0 +1,104 @@
+import { ChapterIdentifier, StudyNote } from '../types.ts';
+import { findReferences, referenceIncludesChapter, parseChapterKey, compareCanonical } from './scriptureReference.ts';
+
+export function createNoteId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `note-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+export const isChapterNote = (note: StudyNote) => note.startVerse === undefined;
+
+const isStudyNote = (value: unknown): value is StudyNote => {
+    return typeof value === 'object' && value !== null &&
+        'id' in value && typeof value.id === 'string' &&
+        'content' in value && typeof value.content === 'string';
+};
+
+/**
+ * Converts stored notes to the current shape. Profiles written before verse-anchored notes
+ * hold one plain string per chapter; each becomes that chapter's chapter-level note.
+ * Migrated notes get a stable id so repeated reads (before the next save) agree with each other.
+ * @param raw - The `notes` JSON as stored.
+ * @param fallbackDate - Timestamp to use for migrated notes, usually the profile's `updated_at`.
+ */
+export function migrateNotes(raw: unknown, fallbackDate: string = new Date(0).toISOString()): Record<string, StudyNote[]> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+    const notes: Record<string, StudyNote[]> = {};
+    Object.entries(raw as Record<string, unknown>).forEach(([chapterKey, value]) => {
+        if (typeof value === 'string') {
+            if (value.trim()) {
+                notes[chapterKey] = [{ id: `legacy-${chapterKey}`, content: value, createdAt: fallbackDate, updatedAt: fallbackDate }];
+            }
+        } else if (Array.isArray(value)) {
+            const validNotes = value.filter(isStudyNote);
+            if (validNotes.length > 0) notes[chapterKey] = validNotes;
+        }
+    });
+    return notes;
+}
+
+/**
+ * Orders a chapter's notes: the chapter-level note first, then by anchor verse.
+ */
+export function sortNotes(notes: StudyNote[]): StudyNote[] {
+    return [...notes].sort((a, b) => (a.startVerse ?? 0) - (b.startVerse ?? 0) || a.createdAt.localeCompare(b.createdAt));
+}
+
+export function formatNoteAnchor(note: StudyNote): string {
+    if (isChapterNote(note)) return 'Chapter note';
+    return note.endVerse !== undefined && note.endVerse !== note.startVerse
+        ? `vv. ${note.startVerse}-${note.endVerse}`
+        : `v. ${note.startVerse}`;
+}
+
+/**
+ * Returns the start of a note as plain text, with the common Markdown syntax removed, for lists and previews.
+ */
+export function getNoteExcerpt(content: string, maxLength = 160): string {
+    const text = content
+        .replace(/```[\s\S]*?```/g, ' ')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+|\d+\.\s+)/gm, '')
+        .replace(/[*_`~]+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}…` : text;
+}
+
+// "#hope" or "#sermon-notes"; requires a letter so "#1" is not a tag.
+export const TAG_PATTERN = /(^|[^\p{L}\p{N}_&#])#([\p{L}\p{N}_-]*\p{L}[\p{L}\p{N}_-]*)/gu;
+
+/**
+ * Returns the distinct, lower-cased #tags in a note.
+ */
+export function extractTags(content: string): string[] {
+    const tags = new Set<string>();
+    for (const match of content.matchAll(TAG_PATTERN)) {
+        tags.add(match[2].toLowerCase());
+    }
+    return [...tags];
+}
+
+export interface NoteBacklink {
+    chapter: ChapterIdentifier;
+    note: StudyNote;
+}
+
+/**
+ * Finds notes in other chapters whose text cites the given chapter, in canonical order.
+ */
+export function findBacklinks(notes: Record<string, StudyNote[]>, identifier: ChapterIdentifier): NoteBacklink[] {
+    const backlinks: NoteBacklink[] = [];
+    Object.entries(notes).forEach(([chapterKey, chapterNotes]) => {
+        const chapter = parseChapterKey(chapterKey);
+        if (!chapter || (chapter.book === identifier.book && chapter.chapter === identifier.chapter)) return;
+        sortNotes(chapterNotes).forEach(note => {
+            if (findReferences(note.content).some(match => referenceIncludesChapter(match.reference, identifier))) {
+                backlinks.push({ chapter, note });
+            }
+        });
+    });
+    return backlinks.sort((a, b) => compareCanonical(a.chapter, b.chapter));
+}
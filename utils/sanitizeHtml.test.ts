@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { isSafeUrl, sanitizeNode } from './sanitizeHtml.ts';
+import { renderMarkdown } from './markdown.ts';
+
+const sanitize = (html: string) => {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    sanitizeNode(container);
+    return container.innerHTML;
+};
+
+describe('sanitizeNode', () => {
+    it('removes scripts along with their content', () => {
+        expect(sanitize('<p>Hello<script>alert(1)</script></p>')).toBe('<p>Hello</p>');
+        expect(sanitize('<script src="https://evil.example/x.js"></script>')).toBe('');
+    });
+
+    it('removes other elements that carry code or markup', () => {
+        expect(sanitize('<style>p { color: red }</style><iframe src="https://evil.example"></iframe><p>Text</p>')).toBe('<p>Text</p>');
+        expect(sanitize('<svg><script>alert(1)</script></svg>')).toBe('');
+        expect(sanitize('<form action="/steal"><input name="password"><button>Go</button></form>')).toBe('');
+    });
+
+    it('removes event-handler attributes', () => {
+        expect(sanitize('<p onclick="alert(1)">Tap</p>')).toBe('<p>Tap</p>');
+        expect(sanitize('<a href="https://example.com" onmouseover="alert(1)">Link</a>'))
+            .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">Link</a>');
+    });
+
+    it('unwraps elements outside the allowlist but keeps their text', () => {
+        expect(sanitize('<div class="x"><span style="color:red">Kept</span></div>')).toBe('Kept');
+        expect(sanitize('<img src="x" onerror="alert(1)">')).toBe('');
+    });
+
+    it('keeps allowed elements and attributes', () => {
+        expect(sanitize('<ol start="3"><li><strong>One</strong> <em>two</em></li></ol>'))
+            .toBe('<ol start="3"><li><strong>One</strong> <em>two</em></li></ol>');
+    });
+
+    it('drops comments', () => {
+        expect(sanitize('<p>A<!-- <script>alert(1)</script> -->B</p>')).toBe('<p>AB</p>');
+    });
+
+    it('strips javascript: links', () => {
+        expect(sanitize('<a href="javascript:alert(1)">Click</a>')).toBe('<a>Click</a>');
+        expect(sanitize('<a href="JaVaScRiPt:alert(1)">Click</a>')).toBe('<a>Click</a>');
+        expect(sanitize('<a href="java&#x09;script:alert(1)">Click</a>')).toBe('<a>Click</a>');
+        expect(sanitize('<a href="  javascript:alert(1)">Click</a>')).toBe('<a>Click</a>');
+    });
+
+    it('keeps relative links in the same tab', () => {
+        expect(sanitize('<a href="#top">Top</a>')).toBe('<a href="#top">Top</a>');
+    });
+});
+
+describe('isSafeUrl', () => {
+    it('allows web, mail and relative links', () => {
+        expect(isSafeUrl('https://example.com')).toBe(true);
+        expect(isSafeUrl('http://example.com')).toBe(true);
+        expect(isSafeUrl('mailto:someone@example.com')).toBe(true);
+        expect(isSafeUrl('/study/John-3')).toBe(true);
+        expect(isSafeUrl('#')).toBe(true);
+    });
+
+    it('refuses script and data schemes however they are padded', () => {
+        expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+        expect(isSafeUrl('\u0001javascript:alert(1)')).toBe(false);
+        expect(isSafeUrl('java\nscript:alert(1)')).toBe(false);
+        expect(isSafeUrl('java\u0085script:alert(1)')).toBe(false);
+        expect(isSafeUrl('vbscript:msgbox(1)')).toBe(false);
+        expect(isSafeUrl('data:text/html,<script>alert(1)</script>')).toBe(false);
+    });
+});
+
+describe('renderMarkdown', () => {
+    it('removes HTML injected into Markdown', () => {
+        const html = renderMarkdown('Hello <script>alert(1)</script> <img src=x onerror="alert(1)"> **world**');
+        expect(html).not.toMatch(/script|onerror|<img/i);
+        expect(html).toContain('<strong>world</strong>');
+    });
+
+    it('strips javascript: links written in Markdown', () => {
+        const html = renderMarkdown('[Click me](javascript:alert(1))');
+        expect(html).not.toMatch(/javascript/i);
+        expect(html).toContain('Click me');
+    });
+
+    it('still links scripture references after sanitizing', () => {
+        const html = renderMarkdown('See John 3:16.', { linkReferences: true, inline: true });
+        expect(html).toContain('data-ref="John 3:16"');
+    });
+});
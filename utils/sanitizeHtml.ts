@@ -0,0 +1,76 @@
+// Elements that rendered Markdown may contain, and the attributes each may keep. Anything else
+// is unwrapped (its text is kept) or, for the elements below, removed with its content.
+const ALLOWED_ELEMENTS: Record<string, string[]> = {
+    P: [], BR: [], HR: [],
+    H1: [], H2: [], H3: [], H4: [], H5: [], H6: [],
+    STRONG: [], B: [], EM: [], I: [], DEL: [], S: [],
+    CODE: [], PRE: [], BLOCKQUOTE: [],
+    UL: [], OL: ['start'], LI: [],
+    TABLE: [], THEAD: [], TBODY: [], TR: [], TH: ['align'], TD: ['align'],
+    A: ['href', 'title'],
+};
+
+// Their content is code, markup or a form, never text meant for the reader.
+const REMOVED_ELEMENTS = new Set([
+    'SCRIPT', 'STYLE', 'IFRAME', 'FRAME', 'FRAMESET', 'OBJECT', 'EMBED', 'APPLET', 'TEMPLATE', 'NOSCRIPT',
+    'SVG', 'MATH', 'FORM', 'INPUT', 'BUTTON', 'TEXTAREA', 'SELECT', 'OPTION', 'LINK', 'META', 'BASE', 'TITLE',
+]);
+
+const SAFE_URL_SCHEMES = new Set(['http:', 'https:', 'mailto:']);
+
+// Whitespace and C0/C1 control characters, which browsers ignore inside a scheme, e.g. "java\tscript:".
+const isIgnoredInScheme = (char: string) => {
+    const code = char.charCodeAt(0);
+    return code <= 0x20 || (code >= 0x7f && code <= 0x9f);
+};
+
+/**
+ * Whether a link may keep its href: web and mail links, and relative links. Schemes like
+ * `javascript:` and `data:` are refused, however they are spelled or padded.
+ */
+export function isSafeUrl(url: string): boolean {
+    const normalized = Array.from(url).filter(char => !isIgnoredInScheme(char)).join('').toLowerCase();
+    const scheme = normalized.match(/^[a-z][a-z0-9+.-]*:/)?.[0];
+    return scheme === undefined || SAFE_URL_SCHEMES.has(scheme);
+}
+
+// SVG and MathML elements report lowercase tag names.
+const tagOf = (element: Element) => element.tagName.toUpperCase();
+
+const sanitizeElement = (element: Element) => {
+    const allowedAttributes = ALLOWED_ELEMENTS[tagOf(element)];
+    Array.from(element.attributes).forEach(({ name }) => {
+        if (!allowedAttributes.includes(name)) element.removeAttribute(name);
+    });
+    if (tagOf(element) === 'A') {
+        const href = element.getAttribute('href');
+        if (href !== null && !isSafeUrl(href)) element.removeAttribute('href');
+        // External links open in a new tab, without access to this one.
+        if (/^(https?:)?\/\//i.test(element.getAttribute('href') || '')) {
+            element.setAttribute('target', '_blank');
+            element.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+};
+
+/**
+ * Strips everything from rendered Markdown but an allowlist of elements and attributes, in place.
+ * Comments are removed, disallowed elements are unwrapped or dropped, and unsafe links lose their href.
+ */
+export function sanitizeNode(root: Node): void {
+    Array.from(root.childNodes).forEach(node => {
+        if (node.nodeType === Node.TEXT_NODE) return;
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+            node.parentNode?.removeChild(node);
+            return;
+        }
+        const element = node as Element;
+        if (REMOVED_ELEMENTS.has(tagOf(element))) {
+            element.remove();
+            return;
+        }
+        sanitizeNode(element);
+        if (ALLOWED_ELEMENTS[tagOf(element)]) sanitizeElement(element);
+        else element.replaceWith(...Array.from(element.childNodes));
+    });
+}
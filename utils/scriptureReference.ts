@@ -0,0 +1,308 @@
+import { BIBLE_BOOKS } from '../constants.ts';
+import { Book, BookName, ChapterIdentifier, ParsedReference, ReferenceRange, VerseLocation } from '../types.ts';
+
+// Abbreviations that are not simply a prefix of the book name. Keys are lower-case with periods
+// removed; numbered books ("1 Cor", "2 Kgs") are matched by their name without the ordinal.
+const BOOK_ALIASES: Record<string, string> = {
+    dt: 'Deuteronomy', lv: 'Leviticus', nm: 'Numbers', jsh: 'Joshua',
+    jdg: 'Judges', jg: 'Judges', jdgs: 'Judges',
+    sa: 'Samuel', sm: 'Samuel', ki: 'Kings', kg: 'Kings', kgs: 'Kings',
+    ch: 'Chronicles', chron: 'Chronicles',
+    ps: 'Psalms', psa: 'Psalms', psalm: 'Psalms', pss: 'Psalms',
+    prv: 'Proverbs', qoh: 'Ecclesiastes',
+    song: 'Song of Solomon', sos: 'Song of Solomon', sng: 'Song of Solomon',
+    'song of songs': 'Song of Solomon', canticles: 'Song of Solomon',
+    ezk: 'Ezekiel', jol: 'Joel', nam: 'Nahum',
+    mt: 'Matthew', mk: 'Mark', mrk: 'Mark', lk: 'Luke', jn: 'John', jhn: 'John',
+    co: 'Corinthians', cor: 'Corinthians',
+    phil: 'Philippians', php: 'Philippians', phm: 'Philemon', philem: 'Philemon',
+    th: 'Thessalonians', thess: 'Thessalonians', ti: 'Timothy', tm: 'Timothy',
+    jas: 'James', pe: 'Peter', pt: 'Peter', revelations: 'Revelation',
+};
+
+const ORDINALS: Record<string, number> = {
+    '1': 1, '2': 2, '3': 3, i: 1, ii: 2, iii: 3, first: 1, second: 2, third: 3,
+};
+
+const safeBibleBooks: readonly Book[] = BIBLE_BOOKS;
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Resolves a book name or abbreviation ("Gen", "1 Cor", "Ps", "Jn", "1CO") to its canonical name.
+ * @returns The book name, or null if the input is unknown or ambiguous (e.g. "Ju").
+ */
+export function resolveBookName(input: string): BookName | null {
+    const normalized = normalizeName(input);
+    if (!normalized) return null;
+
+    const exact = safeBibleBooks.find(b => b.name.toLowerCase() === normalized || b.id.toLowerCase() === normalized.replace(/\s/g, ''));
+    if (exact) return exact.name;
+
+    // Split off a leading ordinal: "1 cor", "1cor", "ii kings", "first john".
+    const ordinalMatch = normalized.match(/^(?:([1-3])\s*|(i{1,3}|first|second|third)\s+)(.+)$/);
+    const ordinal = ordinalMatch ? ORDINALS[ordinalMatch[1] || ordinalMatch[2]] : null;
+    const baseName = ordinalMatch ? ordinalMatch[3] : normalized;
+    const candidates = safeBibleBooks.filter(b => ordinal
+        ? b.name.startsWith(`${ordinal} `)
+        : !/^\d/.test(b.name));
+    const stripOrdinal = (name: string) => name.replace(/^\d\s/, '').toLowerCase();
+
+    const alias = BOOK_ALIASES[baseName];
+    if (alias) {
+        const aliased = candidates.find(b => stripOrdinal(b.name) === alias.toLowerCase());
+        if (aliased) return aliased.name;
+    }
+
+    const byPrefix = candidates.filter(b => stripOrdinal(b.name).startsWith(baseName));
+    return byPrefix.length === 1 ? byPrefix[0].name : null;
+}
+
+const findBook = (name: BookName): Book => safeBibleBooks.find(b => b.name === name)!;
+
+const compareLocations = (a: VerseLocation, b: VerseLocation) => (a.chapter - b.chapter) || ((a.verse ?? 0) - (b.verse ?? 0));
+
+/**
+ * Parses the chapter/verse part of a single-book reference, e.g. "3:16-4:2" or "8:1,28-30".
+ */
+const parseLocations = (book: Book, locationText: string): ReferenceRange[] => {
+    if (!locationText) {
+        return [{ start: { book: book.name, chapter: 1 }, end: { book: book.name, chapter: book.chapters } }];
+    }
+
+    let currentChapter: number | null = null;
+    // "Jude 3" conventionally means verse 3, since Jude has only one chapter.
+    const firstNumber = parseInt(locationText, 10);
+    if (book.chapters === 1 && !locationText.includes(':') && firstNumber > 1) {
+        currentChapter = 1;
+    }
+
+    return locationText.split(',').map(item => {
+        const match = item.trim().match(/^(\d+)(?::(\d+))?(?:-(\d+)(?::(\d+))?)?$/);
+        if (!match) {
+            throw new Error(`"${item.trim()}" is not a valid chapter or verse.`);
+        }
+        const [, a, b, c, d] = match;
+        let start: VerseLocation;
+        if (b !== undefined) {
+            currentChapter = parseInt(a, 10);
+            start = { book: book.name, chapter: currentChapter, verse: parseInt(b, 10) };
+        } else if (currentChapter !== null) {
+            start = { book: book.name, chapter: currentChapter, verse: parseInt(a, 10) };
+        } else {
+            start = { book: book.name, chapter: parseInt(a, 10) };
+        }
+
+        let end: VerseLocation = start;
+        if (d !== undefined) {
+            end = { book: book.name, chapter: parseInt(c, 10), verse: parseInt(d, 10) };
+            if (start.verse === undefined) start = { ...start, verse: 1 };
+            currentChapter = end.chapter;
+        } else if (c !== undefined) {
+            end = start.verse !== undefined
+                ? { book: book.name, chapter: start.chapter, verse: parseInt(c, 10) }
+                : { book: book.name, chapter: parseInt(c, 10) };
+        }
+
+        for (const location of [start, end]) {
+            if (location.chapter < 1 || location.chapter > book.chapters) {
+                throw new Error(`${book.name} has ${book.chapters} chapter${book.chapters === 1 ? '' : 's'}; chapter ${location.chapter} does not exist.`);
+            }
+            if (location.verse !== undefined && location.verse < 1) {
+                throw new Error(`Verse numbers start at 1.`);
+            }
+        }
+        if (compareLocations(end, start) < 0) {
+            throw new Error(`The range "${item.trim()}" ends before it starts.`);
+        }
+        return { start, end };
+    });
+};
+
+const formatLocations = (range: ReferenceRange): string => {
+    const { start, end } = range;
+    if (start.verse === undefined || end.verse === undefined) {
+        const book = findBook(start.book);
+        if (start.chapter === 1 && end.chapter === book.chapters) return '';
+        return start.chapter === end.chapter ? `${start.chapter}` : `${start.chapter}-${end.chapter}`;
+    }
+    if (start.chapter !== end.chapter) {
+        return `${start.chapter}:${start.verse}-${end.chapter}:${end.verse}`;
+    }
+    return start.verse === end.verse ? `${start.chapter}:${start.verse}` : `${start.chapter}:${start.verse}-${end.verse}`;
+};
+
+/**
+ * Formats ranges as a canonical reference string, e.g. "Romans 8:1,28-30; 1 Corinthians 13".
+ */
+export function formatReference(ranges: ReferenceRange[]): string {
+    return ranges.reduce((text, range, index) => {
+        const locations = formatLocations(range);
+        const previous = index > 0 ? ranges[index - 1] : null;
+        if (!previous) {
+            return locations ? `${range.start.book} ${locations}` : range.start.book;
+        }
+        if (previous.start.book !== range.start.book || !locations) {
+            return `${text}; ${range.start.book}${locations ? ` ${locations}` : ''}`;
+        }
+        const continuesChapter = range.start.verse !== undefined && previous.end.verse !== undefined
+            && range.start.chapter === previous.end.chapter && range.end.chapter === range.start.chapter;
+        return continuesChapter
+            ? `${text},${locations.slice(locations.indexOf(':') + 1)}`
+            : `${text}; ${locations}`;
+    }, '');
+}
+
+/**
+ * Parses a scripture reference such as "Gen 1", "John 3:16-4:2", "Rom 8:1,28-30", "Jude"
+ * or "John 3:16; 1 Jn 4:8" and validates it against the chapter counts in BIBLE_BOOKS.
+ * @throws An Error with a user-facing message if the reference is malformed or out of range.
+ */
+export function parseReference(input: string): ParsedReference {
+    const text = input.replace(/[–—]/g, '-').replace(/\s+/g, ' ').trim();
+    if (!text) {
+        throw new Error('Please enter a scripture reference.');
+    }
+
+    let currentBook: Book | null = null;
+    const ranges = text.split(';').flatMap(segment => {
+        const match = segment.trim().match(/^((?:[1-3]|i{1,3} |first |second |third )?\s*[a-z][a-z.\s]*?)?\s*(\d[\d:,\-\s]*)?$/i);
+        if (!match || (!match[1] && !match[2])) {
+            throw new Error(`Could not understand the reference "${segment.trim()}".`);
+        }
+        if (match[1]) {
+            const bookName = resolveBookName(match[1]);
+            if (!bookName) {
+                throw new Error(`"${match[1].trim()}" is not a recognized book of the Bible.`);
+            }
+            currentBook = findBook(bookName);
+        }
+        if (!currentBook) {
+            throw new Error(`The reference "${segment.trim()}" is missing a book name.`);
+        }
+        return parseLocations(currentBook, (match[2] || '').replace(/\s/g, ''));
+    });
+
+    return { ranges, canonical: formatReference(ranges) };
+}
+
+/**
+ * Like `parseReference`, but returns null instead of throwing for invalid input.
+ */
+export function tryParseReference(input: string): ParsedReference | null {
+    try {
+        return parseReference(input);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Builds the storage key used for a chapter in bookmarks, notes and progress, e.g. "1_Corinthians-13".
+ */
+export function toChapterKey(identifier: ChapterIdentifier): string {
+    return `${identifier.book.replace(/\s/g, '_')}-${identifier.chapter}`;
+}
+
+/**
+ * Reverses `toChapterKey`. Returns null for keys that do not name a real chapter.
+ */
+export function parseChapterKey(key: string): ChapterIdentifier | null {
+    const separator = key.lastIndexOf('-');
+    if (separator < 1) return null;
+    const book = safeBibleBooks.find(b => b.name === key.slice(0, separator).replace(/_/g, ' '));
+    const chapter = parseInt(key.slice(separator + 1), 10);
+    if (!book || !Number.isInteger(chapter) || chapter < 1 || chapter > book.chapters) return null;
+    return { book: book.name, chapter };
+}
+
+/**
+ * Builds the translation-independent key for a single verse, e.g. "John-3:16".
+ */
+export function toVerseKey(location: ChapterIdentifier & { verse: number }): string {
+    return `${toChapterKey(location)}:${location.verse}`;
+}
+
+/**
+ * Reverses `toVerseKey`. Returns null for malformed keys.
+ */
+export function parseVerseKey(key: string): (ChapterIdentifier & { verse: number }) | null {
+    const separator = key.lastIndexOf(':');
+    const chapter = separator > 0 ? parseChapterKey(key.slice(0, separator)) : null;
+    const verse = parseInt(key.slice(separator + 1), 10);
+    if (!chapter || !Number.isInteger(verse) || verse < 1) return null;
+    return { ...chapter, verse };
+}
+
+/**
+ * Orders locations canonically: by book order in BIBLE_BOOKS, then chapter, then verse.
+ */
+export function compareCanonical(a: VerseLocation, b: VerseLocation): number {
+    const bookOrder = safeBibleBooks.findIndex(book => book.name === a.book) - safeBibleBooks.findIndex(book => book.name === b.book);
+    return bookOrder || compareLocations(a, b);
+}
+
+export interface ReferenceMatch {
+    index: number;
+    length: number;
+    text: string;
+    reference: ParsedReference;
+}
+
+// A capitalized book name (optionally numbered, e.g. "1 Cor." or "Song of Solomon") followed by
+// a chapter and optional verses. Candidates are confirmed with parseReference.
+const REFERENCE_CANDIDATE = /(?:\b[1-3]\s?|\bI{1,3}\s)?\b[A-Z][A-Za-z]*\.?(?:\s+(?:of\s+)?[A-Z][A-Za-z]*\.?)*\s+\d+(?::\d+(?:\s*[-–]\s*\d+(?::\d+)?)?(?:\s*,\s*\d+(?:\s*[-–]\s*\d+)?)*)?(?![\d:])/g;
+
+/**
+ * Finds every valid scripture reference in free text, e.g. "see Rom 8:28 and 1 Jn 4:8".
+ */
+export function findReferences(text: string): ReferenceMatch[] {
+    const matches: ReferenceMatch[] = [];
+    const pattern = new RegExp(REFERENCE_CANDIDATE.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const reference = tryParseReference(match[0]);
+        if (reference) {
+            matches.push({ index: match.index, length: match[0].length, text: match[0], reference });
+        } else {
+            // "In John 3:16" fails as a whole; retry from the next character so "John 3:16" is found.
+            pattern.lastIndex = match.index + 1;
+        }
+    }
+    return matches;
+}
+
+export interface CitedReference {
+    index: number;
+    length: number;
+    text: string;
+    // Null when the text names a real book but the chapter or verses don't exist.
+    reference: ParsedReference | null;
+}
+
+/**
+ * Like `findReferences`, but also returns citations of a real book that are out of range
+ * (e.g. "John 30:1"), so they can be flagged instead of passing unnoticed.
+ */
+export function findCitedReferences(text: string): CitedReference[] {
+    const matches: CitedReference[] = [];
+    const pattern = new RegExp(REFERENCE_CANDIDATE.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const reference = tryParseReference(match[0]);
+        if (reference || resolveBookName(match[0].replace(/\s+\d[\s\S]*$/, ''))) {
+            matches.push({ index: match.index, length: match[0].length, text: match[0], reference });
+        } else {
+            pattern.lastIndex = match.index + 1;
+        }
+    }
+    return matches;
+}
+
+/**
+ * True if any range of the reference includes (part of) the given chapter.
+ */
+export function referenceIncludesChapter(reference: ParsedReference, identifier: ChapterIdentifier): boolean {
+    return reference.ranges.some(({ start, end }) =>
+        start.book === identifier.book && start.chapter <= identifier.chapter && end.chapter >= identifier.chapter);
+}
@@ -0,0 +1,62 @@
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Words keep their trailing whitespace, so joining the parts reproduces the text.
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+
+/**
+ * Word-level diff of two texts (longest common subsequence), with runs of the same type merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    // lengths[i][j] is the length of the common subsequence of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i].trim() === b[j].trim()
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i].trim() === b[j].trim()) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+}
+
+/**
+ * Renders a section of study content as plain text for diffing: list items on their own lines,
+ * and object fields as "field: value".
+ */
+export function toDiffableText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(toDiffableText).join('\n\n');
+    if (typeof value === 'object') {
+        return Object.entries(value as Record<string, unknown>)
+            .map(([key, field]) => typeof field === 'object' && field !== null ? `${key}:\n${toDiffableText(field)}` : `${key}: ${toDiffableText(field)}`)
+            .join('\n');
+    }
+    return String(value);
+}
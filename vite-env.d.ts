@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // Comma-separated translation-to-provider map, e.g. "web:bundled,kjv:http".
+  readonly VITE_BIBLE_PROVIDERS?: string;
+  // Base URL the bundled translation files are served from. Defaults to "/bibles".
+  readonly VITE_BUNDLED_BIBLES_URL?: string;
+  // AI provider: "gemini", "openai" (any OpenAI-compatible server) or "fake" (sample content).
+  readonly VITE_AI_PROVIDER?: string;
+  // OpenAI-compatible server, e.g. "http://localhost:11434/v1" for a local model. Defaults to OpenAI.
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_API_KEY?: string;
+  readonly VITE_AI_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}